@@ -1,10 +1,41 @@
 import { useFrame } from "@react-three/fiber";
-import { forwardRef, useEffect, useMemo, useRef } from "react";
+import {
+	forwardRef,
+	useCallback,
+	useContext,
+	useEffect,
+	useMemo,
+	useRef,
+} from "react";
 import * as THREE from "three";
+import {
+	advanceQueue,
+	type ConveyorAccumulationZone,
+	type ConveyorQueueItem,
+	type ConveyorQueueOptions,
+	findZone,
+	hasRoomAt,
+	insertQueueItem,
+	isQueueFull,
+} from "../utils/conveyorQueue";
+import { ConveyorNetworkContext } from "./ConveyorNetwork";
 import {
 	InstancedMeshPool,
 	type InstancedMeshPoolRef,
 } from "./InstanceMeshPool";
+import {
+	type InstanceKind,
+	MultiInstancePool,
+	type MultiInstancePoolRef,
+} from "./MultiInstancePool";
+
+const worldUp = new THREE.Vector3(0, 1, 0);
+const tempPosition = new THREE.Vector3();
+const tempTangent = new THREE.Vector3();
+const tempRight = new THREE.Vector3();
+const tempUp = new THREE.Vector3();
+const tempMatrix = new THREE.Matrix4();
+const tempRotation = new THREE.Matrix4();
 
 export interface ConveyorBeltProps {
 	curvePath: THREE.Vector3[];
@@ -22,14 +53,97 @@ export interface ConveyorBeltProps {
 	showPath?: boolean;
 	showArrows?: boolean;
 	arrowSpacing?: number;
+	/** @deprecated 箭头随皮带表面移动，速度由speed决定 */
 	arrowSpeed?: number;
 	arrowLength?: number;
+	speed?: number;
+	itemKinds?: Record<string, InstanceKind>;
+	maxItems?: number;
+	minItemGap?: number;
+	blocked?: boolean;
+	accumulationZones?: ConveyorAccumulationZone[];
+	onItemArrived?: (id: number) => void;
+	onBeltFull?: () => void;
+	beltId?: string;
+	inputs?: string[];
+	outputs?: string[];
+}
+
+// 积放区[start, end]（米）：hold为true时在区段末端拦停物品，后面的物品依次排队
+export type { ConveyorAccumulationZone };
+
+// 皮带上的物品，offset为沿曲线距起点的距离（米）
+export interface ConveyorItem {
+	id: number;
+	kind: string;
+	offset: number;
+	queued: boolean; // 被前方物品、积放区或堵住的末端挡住
+	zone: number; // 所在积放区的下标，不在积放区内为-1
+}
+
+// 内部状态，arrived表示已经回调过onItemArrived
+type BeltItem = ConveyorQueueItem;
+
+// 物品外形：lift为底面贴到滚筒顶面的抬升高度，front/back为原点到前后端的距离
+interface ItemShape {
+	lift: number;
+	front: number;
+	back: number;
+}
+
+const EmptyShape: ItemShape = { lift: 0, front: 0, back: 0 };
+const NoZones: ConveyorAccumulationZone[] = [];
+
+function sameIds(a: string[] | undefined, b: string[] | undefined) {
+	return (
+		a === b ||
+		(!!a && !!b && a.length === b.length && a.every((id, i) => id === b[i]))
+	);
+}
+
+function sameZones(
+	a: ConveyorAccumulationZone[],
+	b: ConveyorAccumulationZone[],
+) {
+	return (
+		a.length === b.length &&
+		a.every((zone, i) => {
+			const other = b[i];
+			return (
+				other !== undefined &&
+				zone.start === other.start &&
+				zone.end === other.end &&
+				!!zone.hold === !!other.hold
+			);
+		})
+	);
+}
+
+// 内容不变时沿用上一次的值，内联传入的数组不会让依赖它的effect每次渲染都重新执行
+function useStableValue<T>(value: T, isEqual: (a: T, b: T) => boolean): T {
+	const stable = useRef(value);
+	if (stable.current !== value && !isEqual(stable.current, value)) {
+		stable.current = value;
+	}
+	return stable.current;
 }
 
 export interface ConveyorBeltRef {
 	getFrameLength: () => number;
 	getRollerCount: () => number;
-	updateAnimation?: (time: number) => void;
+	updateAnimation: (time: number) => void;
+	pauseAnimation: () => void;
+	resumeAnimation: () => void;
+	isAnimationPaused: () => boolean;
+	start: (rampSeconds?: number) => void;
+	stop: (rampSeconds?: number) => void;
+	setSpeed: (speed: number, rampSeconds?: number) => void;
+	getSpeed: () => number;
+	isRunning: () => boolean;
+	spawnItem: (kind: string, offset?: number) => number;
+	removeItem: (id: number) => void;
+	getItems: () => ConveyorItem[];
+	isFull: () => boolean;
 }
 
 export const ConveyorBelt = forwardRef<ConveyorBeltRef, ConveyorBeltProps>(
@@ -49,12 +163,42 @@ export const ConveyorBelt = forwardRef<ConveyorBeltRef, ConveyorBeltProps>(
 			segments = 32,
 			showPath = false,
 			arrowSpacing = 1,
-			arrowSpeed = 0.5,
 			arrowLength = 0.3,
+			speed = 0.5,
+			itemKinds,
+			maxItems = 1000,
+			minItemGap = 0.05,
+			blocked = false,
+			accumulationZones: accumulationZonesProp = NoZones,
+			onItemArrived,
+			onBeltFull,
+			beltId,
+			inputs: inputsProp,
+			outputs: outputsProp,
 		}: ConveyorBeltProps,
 		ref,
 	) {
+		// 端口和积放区常以内联数组传入，按内容比较，避免每次渲染都重新注册到网络
+		const inputs = useStableValue(inputsProp, sameIds);
+		const outputs = useStableValue(outputsProp, sameIds);
+		const accumulationZones = useStableValue(accumulationZonesProp, sameZones);
+		const network = useContext(ConveyorNetworkContext);
 		const instancedMeshRef = useRef<InstancedMeshPoolRef>(null);
+		const itemPoolRef = useRef<MultiInstancePoolRef>(null);
+		const items = useRef<Map<number, BeltItem>>(new Map());
+		// 按offset从前到后排列，物品之间不会超车，顺序保持不变
+		const queue = useRef<BeltItem[]>([]);
+		const isFull = useRef(false);
+		// 动画时钟（秒）、皮带表面走过的路程和滚筒转过的角度，paused时不再随帧推进
+		const animation = useRef({ time: 0, travel: 0, angle: 0, paused: false });
+		// 实际速度按rate（米/秒²）逼近target；setpoint为运行时的设定速度
+		const beltMotion = useRef({
+			speed,
+			target: speed,
+			rate: 0,
+			setpoint: speed,
+			running: true,
+		});
 
 		// 优化的曲线缓存机制
 		const curve = useMemo(() => {
@@ -106,6 +250,18 @@ export const ConveyorBelt = forwardRef<ConveyorBeltRef, ConveyorBeltProps>(
 			};
 		}, [curve, rollerSpacing]);
 
+		// 滚筒的基础矩阵，转动时在此基础上绕滚筒轴（局部Y轴）旋转
+		const { rollerBaseMatrices, rollerMatrices } = useMemo(() => {
+			const rollerBaseMatrices = new Float32Array(rollerPositions.length * 16);
+			rollerPositions.forEach(({ matrix }, i) => {
+				matrix.toArray(rollerBaseMatrices, i * 16);
+			});
+			return {
+				rollerBaseMatrices,
+				rollerMatrices: new Float32Array(rollerBaseMatrices.length),
+			};
+		}, [rollerPositions]);
+
 		// 创建滚筒几何体和材质
 		const rollerGeometry = useMemo(() => {
 			return new THREE.CylinderGeometry(
@@ -277,6 +433,91 @@ export const ConveyorBelt = forwardRef<ConveyorBeltRef, ConveyorBeltProps>(
 			return geometry;
 		}, [curve, frameWidth, segments, showPath]);
 
+		// 默认的物品类型：纸箱和周转箱
+		const defaultItemKinds = useMemo<Record<string, InstanceKind>>(() => {
+			return {
+				box: {
+					geometry: new THREE.BoxGeometry(0.4, 0.3, 0.4),
+					material: new THREE.MeshStandardMaterial({
+						color: 0xc8a165,
+						roughness: 0.9,
+					}),
+				},
+				tote: {
+					geometry: new THREE.BoxGeometry(0.6, 0.25, 0.4),
+					material: new THREE.MeshStandardMaterial({
+						color: 0x1f5fbf,
+						roughness: 0.5,
+					}),
+				},
+			};
+		}, []);
+		const kinds = itemKinds ?? defaultItemKinds;
+
+		// 根据包围盒计算每种物品的外形，局部X轴为前进方向
+		const itemShapes = useMemo(() => {
+			const shapes = new Map<string, ItemShape>();
+			for (const [kind, { geometry }] of Object.entries(kinds)) {
+				if (!geometry.boundingBox) geometry.computeBoundingBox();
+				const box = geometry.boundingBox;
+				shapes.set(kind, {
+					lift: rollerRadius - (box?.min.y ?? 0),
+					front: box?.max.x ?? 0,
+					back: -(box?.min.x ?? 0),
+				});
+			}
+			return shapes;
+		}, [kinds, rollerRadius]);
+
+		// 排队计算（间距、积放区、堵住的末端、反转）使用的皮带参数
+		const queueOptions = useMemo<ConveyorQueueOptions>(
+			() => ({
+				length: totalLength,
+				minGap: minItemGap,
+				extentOf: (kind) => itemShapes.get(kind) ?? EmptyShape,
+			}),
+			[totalLength, minItemGap, itemShapes],
+		);
+
+		// 物品的局部X轴沿切线方向，Y轴朝上，底面贴着滚筒
+		const writeItemMatrix = useCallback(
+			(item: BeltItem) => {
+				const t = THREE.MathUtils.clamp(
+					totalLength > 0 ? item.offset / totalLength : 0,
+					0,
+					1,
+				);
+				curve.getPointAt(t, tempPosition);
+				curve.getTangentAt(t, tempTangent);
+				tempRight.crossVectors(tempTangent, worldUp).normalize();
+				tempUp.crossVectors(tempRight, tempTangent).normalize();
+				tempPosition.addScaledVector(
+					tempUp,
+					(itemShapes.get(item.kind) ?? EmptyShape).lift,
+				);
+				tempMatrix
+					.makeBasis(tempTangent, tempUp, tempRight)
+					.setPosition(tempPosition);
+				itemPoolRef.current?.setMatrix(item.id, tempMatrix);
+			},
+			[curve, totalLength, itemShapes],
+		);
+
+		// 检查在offset处放下物品是否与已有物品保持最小间距
+		const hasRoom = useCallback(
+			(kind: string, offset: number) =>
+				hasRoomAt(queue.current, kind, offset, queueOptions),
+			[queueOptions],
+		);
+
+		const removeItem = useCallback((id: number) => {
+			const item = items.current.get(id);
+			if (!item) return;
+			items.current.delete(id);
+			queue.current.splice(queue.current.indexOf(item), 1);
+			itemPoolRef.current?.remove(id);
+		}, []);
+
 		// const defaultPathMaterial = useMemo(() => {
 		// 	return new THREE.MeshStandardMaterial({
 		// 		color: 0x333333,
@@ -351,39 +592,231 @@ export const ConveyorBelt = forwardRef<ConveyorBeltRef, ConveyorBeltProps>(
 			};
 		}, []);
 
+		// 所有滚筒转过同一角度，一次批量写入池中
+		const writeRollerMatrices = useCallback(
+			(angle: number) => {
+				const pool = instancedMeshRef.current;
+				if (!pool) return;
+				tempRotation.makeRotationY(angle);
+				for (let i = 0; i < rollerBaseMatrices.length / 16; i++) {
+					tempMatrix
+						.fromArray(rollerBaseMatrices, i * 16)
+						.multiply(tempRotation)
+						.toArray(rollerMatrices, i * 16);
+				}
+				pool.setMatrixArray(rollerMatrices, 0);
+			},
+			[rollerBaseMatrices, rollerMatrices],
+		);
+
+		// 把动画时钟推进到time，滚筒角速度 = 线速度 / 滚筒半径，顶面与物品同向运动
+		const updateAnimation = useCallback(
+			(time: number) => {
+				const state = animation.current;
+				const travel = beltMotion.current.speed * (time - state.time);
+				state.time = time;
+				if (travel !== 0) {
+					state.travel += travel;
+					state.angle = (state.angle + travel / rollerRadius) % (Math.PI * 2);
+					writeRollerMatrices(state.angle);
+				}
+			},
+			[rollerRadius, writeRollerMatrices],
+		);
+
+		// 在rampSeconds内匀加速到目标速度，0表示立即生效
+		const rampTo = useCallback((target: number, rampSeconds: number) => {
+			const motion = beltMotion.current;
+			motion.target = target;
+			if (rampSeconds > 0) {
+				motion.rate = Math.abs(target - motion.speed) / rampSeconds;
+			} else {
+				motion.speed = target;
+			}
+		}, []);
+
+		// speed属性变化时立即生效；停止状态下只更新设定速度
+		useEffect(() => {
+			const motion = beltMotion.current;
+			motion.setpoint = speed;
+			if (motion.running) {
+				rampTo(speed, 0);
+			}
+		}, [speed, rampTo]);
+
 		// 动画旋转和路径材质更新
-		useFrame((state) => {
+		useFrame((_, delta) => {
+			const motion = beltMotion.current;
+			if (motion.speed !== motion.target) {
+				const step = motion.rate * delta;
+				motion.speed =
+					Math.abs(motion.target - motion.speed) <= step
+						? motion.target
+						: motion.speed + Math.sign(motion.target - motion.speed) * step;
+			}
+
+			if (!animation.current.paused) {
+				updateAnimation(animation.current.time + delta);
+			}
+
 			// 更新路径材质的时间uniform以实现动画效果
 			if (
 				defaultPathMaterial instanceof THREE.ShaderMaterial
 			) {
-				defaultPathMaterial.uniforms.time.value = state.clock.elapsedTime;
+				// 箭头随皮带表面移动：time为按曲线长度归一化的路程（对应UV的V方向）
+				defaultPathMaterial.uniforms.time.value =
+					totalLength > 0 ? animation.current.travel / totalLength : 0;
 				// 更新其他uniforms
 				defaultPathMaterial.uniforms.arrowSpacing.value = arrowSpacing;
-				defaultPathMaterial.uniforms.arrowSpeed.value = arrowSpeed;
+				defaultPathMaterial.uniforms.arrowSpeed.value = 1;
 				defaultPathMaterial.uniforms.arrowLength.value = arrowLength;
 			}
+
+			// 在网络中且有下游皮带时，原点到达末端的物品交给网络
+			const transfer =
+				network && beltId !== undefined && network.getOutputs(beltId).length > 0
+					? (item: BeltItem, overshoot: number) =>
+							network.transfer(
+								beltId,
+								{ id: item.id, kind: item.kind },
+								overshoot,
+							)
+					: null;
+
+			// 反转时物品朝起点运动：在起点离开皮带，积放区在区段起点拦停，不交接也不回调到达
+			const direction = motion.speed < 0 ? -1 : 1;
+			const { moved, arrived, departed } = advanceQueue(queue.current, {
+				...queueOptions,
+				direction,
+				distance: Math.abs(motion.speed) * delta,
+				blocked,
+				zones: accumulationZones,
+				transfer,
+			});
+			for (const item of moved) {
+				writeItemMatrix(item);
+			}
+			for (const id of arrived) {
+				onItemArrived?.(id);
+			}
+			for (const id of departed) {
+				removeItem(id);
+			}
+
+			// 队列排到入口（正转为起点，反转为末端）时皮带已满；停转时保持原状态
+			if (motion.speed === 0) return;
+			const full = isQueueFull(queue.current, direction, queueOptions);
+			if (full && !isFull.current) {
+				onBeltFull?.();
+			}
+			isFull.current = full;
 		});
 
+		// 曲线或物品外形变化后重新摆放所有物品
+		useEffect(() => {
+			for (const item of queue.current) {
+				writeItemMatrix(item);
+			}
+		}, [writeItemMatrix]);
+
 		// 设置滚筒位置
 		useEffect(() => {
 			if (instancedMeshRef.current) {
-				const matrices = rollerPositions.map(({ matrix }) => matrix);
-				instancedMeshRef.current.setMatrices(matrices);
+				writeRollerMatrices(animation.current.angle);
 				instancedMeshRef.current.setInstanceCount(rollerPositions.length);
 				instancedMeshRef.current.updateMatrices();
+				// 滚筒只绕自身轴转动，包围盒只在布局变化时重算
+				instancedMeshRef.current.computeBoundingBox();
 			}
-		}, [rollerPositions]);
+		}, [rollerPositions, writeRollerMatrices]);
 
-		// 暴露API
+		// 暴露API，并注册到所在的网络
 		useEffect(() => {
+			const api: ConveyorBeltRef = {
+				getFrameLength: () => totalLength,
+				getRollerCount: () => rollerPositions.length,
+				spawnItem: (kind: string, offset?: number) => {
+					// 默认放在入口：正转为起点，反转为末端；静止时按即将加速的方向
+					const motion = beltMotion.current;
+					const heading = motion.speed !== 0 ? motion.speed : motion.target;
+					const entry = heading < 0 ? totalLength : 0;
+					const clamped = THREE.MathUtils.clamp(
+						offset ?? entry,
+						0,
+						totalLength,
+					);
+					if (!hasRoom(kind, clamped)) return -1;
+
+					const id = itemPoolRef.current?.add(kind) ?? -1;
+					if (id < 0) return -1;
+
+					const item: BeltItem = {
+						id,
+						kind,
+						offset: clamped,
+						queued: false,
+						arrived: false,
+					};
+					insertQueueItem(queue.current, item);
+					items.current.set(id, item);
+					writeItemMatrix(item);
+					return id;
+				},
+				removeItem,
+				getItems: () =>
+					queue.current.map(({ id, kind, offset, queued }) => ({
+						id,
+						kind,
+						offset,
+						queued,
+						zone: findZone(accumulationZones, offset),
+					})),
+				isFull: () => isFull.current,
+				updateAnimation,
+				pauseAnimation: () => {
+					animation.current.paused = true;
+				},
+				resumeAnimation: () => {
+					animation.current.paused = false;
+				},
+				isAnimationPaused: () => animation.current.paused,
+				start: (rampSeconds = 0) => {
+					beltMotion.current.running = true;
+					rampTo(beltMotion.current.setpoint, rampSeconds);
+				},
+				stop: (rampSeconds = 0) => {
+					beltMotion.current.running = false;
+					rampTo(0, rampSeconds);
+				},
+				setSpeed: (nextSpeed: number, rampSeconds = 0) => {
+					beltMotion.current.setpoint = nextSpeed;
+					if (beltMotion.current.running) {
+						rampTo(nextSpeed, rampSeconds);
+					}
+				},
+				getSpeed: () => beltMotion.current.speed,
+				isRunning: () => beltMotion.current.running,
+			};
 			if (ref && typeof ref === "object") {
-				ref.current = {
-					getFrameLength: () => totalLength,
-					getRollerCount: () => rollerPositions.length,
-				};
+				ref.current = api;
 			}
-		}, [ref, totalLength, rollerPositions.length]);
+			if (!network || beltId === undefined) return;
+			return network.register(beltId, api, { inputs, outputs });
+		}, [
+			ref,
+			totalLength,
+			rollerPositions.length,
+			writeItemMatrix,
+			hasRoom,
+			removeItem,
+			accumulationZones,
+			updateAnimation,
+			rampTo,
+			network,
+			beltId,
+			inputs,
+			outputs,
+		]);
 
 		return (
 			<group>
@@ -396,6 +829,14 @@ export const ConveyorBelt = forwardRef<ConveyorBeltRef, ConveyorBeltProps>(
 					batchSize={1000}
 					enableColors={false}
 					frustumCulled={true}
+					boundsUpdateStrategy="manual"
+				/>
+
+				{/* 皮带上运输的物品，每种类型一个批处理池 */}
+				<MultiInstancePool
+					ref={itemPoolRef}
+					kinds={kinds}
+					maxInstances={maxItems}
 				/>
 
 				{/* 框架 - 使用ExtrudeGeometry沿曲线生成 */}
@@ -0,0 +1,170 @@
+import {
+	createContext,
+	forwardRef,
+	type ReactNode,
+	useImperativeHandle,
+	useMemo,
+	useRef,
+} from "react";
+import type { ConveyorBeltRef, ConveyorItem } from "./ConveyorBelt";
+
+// 皮带声明的端口：inputs为向本皮带起点送货的皮带，outputs为本皮带末端送往的皮带
+export interface ConveyorBeltPorts {
+	inputs?: string[];
+	outputs?: string[];
+}
+
+export type ConveyorRouteItem = Pick<ConveyorItem, "id" | "kind">;
+
+export interface ConveyorNetworkContextValue {
+	register: (
+		beltId: string,
+		belt: ConveyorBeltRef,
+		ports: ConveyorBeltPorts,
+	) => () => void;
+	getOutputs: (beltId: string) => string[];
+	transfer: (
+		beltId: string,
+		item: ConveyorRouteItem,
+		overshoot: number,
+	) => boolean;
+}
+
+// 供子组件（ConveyorBelt）注册到所在的网络
+export const ConveyorNetworkContext =
+	createContext<ConveyorNetworkContextValue | null>(null);
+
+export interface ConveyorNetworkRef {
+	getBelt: (beltId: string) => ConveyorBeltRef | undefined;
+	getBeltIds: () => string[];
+	getOutputs: (beltId: string) => string[];
+}
+
+export type ConveyorNetworkProps = {
+	route?: (
+		item: ConveyorRouteItem,
+		from: string,
+		outputs: string[],
+	) => string | null;
+	onTransfer?: (from: string, fromId: number, to: string, toId: number) => void;
+	children?: ReactNode;
+};
+
+interface RegisteredBelt {
+	belt: ConveyorBeltRef;
+	ports: ConveyorBeltPorts;
+}
+
+export const ConveyorNetwork = forwardRef<
+	ConveyorNetworkRef,
+	ConveyorNetworkProps
+>(function ConveyorNetwork({ route, onTransfer, children }, ref) {
+	const belts = useRef<Map<string, RegisteredBelt>>(new Map());
+	// 连接关系在皮带注册变化时失效，避免每帧重新计算
+	const outputsCache = useRef<Map<string, string[]>>(new Map());
+	// 分流器已为等待交接的物品选定的去向：来源皮带 -> 物品id -> 目标皮带
+	const decisions = useRef<Map<string, Map<number, string>>>(new Map());
+
+	const routeRef = useRef(route);
+	routeRef.current = route;
+	const onTransferRef = useRef(onTransfer);
+	onTransferRef.current = onTransfer;
+
+	// context保持稳定，皮带注册和交接都通过ref读取最新状态
+	const contextValue = useMemo<ConveyorNetworkContextValue>(() => {
+		const getOutputs = (beltId: string) => {
+			const cached = outputsCache.current.get(beltId);
+			if (cached) return cached;
+
+			// 本皮带声明的outputs，加上在inputs中声明本皮带的其他皮带
+			const outputs = [...(belts.current.get(beltId)?.ports.outputs ?? [])];
+			belts.current.forEach(({ ports }, id) => {
+				if (ports.inputs?.includes(beltId) && !outputs.includes(id)) {
+					outputs.push(id);
+				}
+			});
+			outputsCache.current.set(beltId, outputs);
+			return outputs;
+		};
+
+		return {
+			register: (beltId, belt, ports) => {
+				const entry = { belt, ports };
+				belts.current.set(beltId, entry);
+				outputsCache.current.clear();
+				return () => {
+					if (belts.current.get(beltId) === entry) {
+						belts.current.delete(beltId);
+						// 属性变化时皮带会在同一次提交中重新注册，已选定的去向保留到皮带真正移除
+						queueMicrotask(() => {
+							if (!belts.current.has(beltId)) {
+								decisions.current.delete(beltId);
+							}
+						});
+					}
+					outputsCache.current.clear();
+				};
+			},
+			getOutputs,
+			transfer: (beltId, item, overshoot) => {
+				const outputs = getOutputs(beltId);
+				if (outputs.length === 0) return false;
+
+				// 有路由回调时每个物品只决定一次去向，返回null表示暂不放行
+				let targets = outputs;
+				const routeItem = routeRef.current;
+				if (routeItem) {
+					let pending = decisions.current.get(beltId);
+					let target = pending?.get(item.id);
+					if (target === undefined) {
+						const chosen = routeItem(item, beltId, outputs);
+						if (chosen === null) return false;
+						// 只接受本皮带的输出，否则按null处理，下一帧重新询问
+						if (!outputs.includes(chosen)) {
+							console.warn(
+								`ConveyorNetwork: route returned "${chosen}", which is not an output of "${beltId}"`,
+							);
+							return false;
+						}
+						target = chosen;
+						if (!pending) {
+							pending = new Map();
+							decisions.current.set(beltId, pending);
+						}
+						pending.set(item.id, target);
+					}
+					targets = [target];
+				}
+
+				// 没有路由回调时交给第一条有空位的输出皮带
+				for (const target of targets) {
+					const toId =
+						belts.current.get(target)?.belt.spawnItem(item.kind, overshoot) ??
+						-1;
+					if (toId >= 0) {
+						decisions.current.get(beltId)?.delete(item.id);
+						onTransferRef.current?.(beltId, item.id, target, toId);
+						return true;
+					}
+				}
+				return false;
+			},
+		};
+	}, []);
+
+	useImperativeHandle(
+		ref,
+		() => ({
+			getBelt: (beltId: string) => belts.current.get(beltId)?.belt,
+			getBeltIds: () => Array.from(belts.current.keys()),
+			getOutputs: (beltId: string) => [...contextValue.getOutputs(beltId)],
+		}),
+		[contextValue],
+	);
+
+	return (
+		<ConveyorNetworkContext.Provider value={contextValue}>
+			{children}
+		</ConveyorNetworkContext.Provider>
+	);
+});
@@ -1,8 +1,446 @@
-import { type ThreeEvent, useFrame } from "@react-three/fiber";
-import { forwardRef, useCallback, useImperativeHandle, useRef } from "react";
+import { type ThreeEvent, useFrame, useThree } from "@react-three/fiber";
+import {
+	createContext,
+	forwardRef,
+	type ReactNode,
+	useCallback,
+	useEffect,
+	useImperativeHandle,
+	useLayoutEffect,
+	useMemo,
+	useReducer,
+	useRef,
+} from "react";
 import * as THREE from "three";
+import { InstanceBVH } from "../utils/instanceBVH";
+import type { InstanceWorkerBridge } from "../utils/instanceWorker";
+import {
+	decodePoolState,
+	encodePoolState,
+	type InstancedMeshPoolState,
+} from "../utils/poolState";
 
 const FarDistance = 10000;
+const tempMatrix = new THREE.Matrix4();
+const tempColor = new THREE.Color();
+const tempBox = new THREE.Box3();
+const tempSphere = new THREE.Sphere();
+const tempVector = new THREE.Vector3();
+const tempFrustum = new THREE.Frustum();
+const projScreenMatrix = new THREE.Matrix4();
+const screenPosition = new THREE.Vector3();
+const tempPosition = new THREE.Vector3();
+const tempQuaternion = new THREE.Quaternion();
+const tempScale = new THREE.Vector3();
+const unitScale = new THREE.Vector3(1, 1, 1);
+const raycastMesh = new THREE.Mesh();
+const raycastIntersects: THREE.Intersection[] = [];
+const inverseMatrix = new THREE.Matrix4();
+const localRay = new THREE.Ray();
+const indexBox = new THREE.Box3();
+const flushedBatches = new Set<number>();
+
+// 画布像素坐标（左上角为原点）下的矩形和点，用于框选/套索选择
+export interface ScreenRect {
+	x: number;
+	y: number;
+	width: number;
+	height: number;
+}
+
+export interface ScreenPoint {
+	x: number;
+	y: number;
+}
+
+function pointInPolygon(x: number, y: number, polygon: ScreenPoint[]) {
+	let inside = false;
+	for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+		const a = polygon[i];
+		const b = polygon[j];
+		if (!a || !b) continue;
+		if (
+			a.y > y !== b.y > y &&
+			x < ((b.x - a.x) * (y - a.y)) / (b.y - a.y) + a.x
+		) {
+			inside = !inside;
+		}
+	}
+	return inside;
+}
+
+// 包围体更新策略：
+// every-frame - 每帧完整重算dirty批次（默认）
+// throttled - 按boundsUpdateInterval节流完整重算
+// manual - 只在调用computeBoundingBox时重算
+// expand-only - 写入时增量扩展，按boundsUpdateInterval周期性收缩
+export type BoundsUpdateStrategy =
+	| "every-frame"
+	| "throttled"
+	| "manual"
+	| "expand-only";
+
+// 完整重算批次的包围盒和包围球，O(count)；
+// 传入hidden时跳过其中被标记的实例（批次的第i个实例对应hidden[offset + i]）
+function recomputeBatchBounds(
+	mesh: THREE.InstancedMesh,
+	hidden?: Uint8Array,
+	offset = 0,
+) {
+	mesh.boundingBox = null;
+	mesh.boundingSphere = null;
+	if (!hidden) {
+		mesh.computeBoundingBox();
+		mesh.computeBoundingSphere();
+		return;
+	}
+
+	const geometry = mesh.geometry;
+	if (geometry.boundingBox === null) geometry.computeBoundingBox();
+	if (geometry.boundingSphere === null) geometry.computeBoundingSphere();
+	const box = new THREE.Box3();
+	const sphere = new THREE.Sphere().makeEmpty();
+	if (geometry.boundingBox && geometry.boundingSphere) {
+		for (let i = 0; i < mesh.count; i++) {
+			if (hidden[offset + i] === 1) continue;
+			mesh.getMatrixAt(i, tempMatrix);
+			box.union(tempBox.copy(geometry.boundingBox).applyMatrix4(tempMatrix));
+			sphere.union(
+				tempSphere.copy(geometry.boundingSphere).applyMatrix4(tempMatrix),
+			);
+		}
+	}
+	mesh.boundingBox = box;
+	mesh.boundingSphere = sphere;
+}
+
+// 用单个实例扩展批次的包围体，O(1)
+function expandBatchBounds(mesh: THREE.InstancedMesh, instanceIndex: number) {
+	if (!mesh.boundingBox || !mesh.boundingSphere) {
+		recomputeBatchBounds(mesh);
+		return;
+	}
+
+	const geometry = mesh.geometry;
+	if (geometry.boundingBox === null) geometry.computeBoundingBox();
+	if (geometry.boundingSphere === null) geometry.computeBoundingSphere();
+	if (!geometry.boundingBox || !geometry.boundingSphere) return;
+
+	mesh.getMatrixAt(instanceIndex, tempMatrix);
+	mesh.boundingBox.union(
+		tempBox.copy(geometry.boundingBox).applyMatrix4(tempMatrix),
+	);
+	mesh.boundingSphere.union(
+		tempSphere.copy(geometry.boundingSphere).applyMatrix4(tempMatrix),
+	);
+}
+
+// 批次内被修改的实例区间 [start, end)，只上传这部分数据到GPU
+interface DirtyRange {
+	start: number;
+	end: number;
+}
+
+type DirtyBatches = Map<number, DirtyRange>;
+
+function markDirty(
+	dirty: DirtyBatches,
+	batchIndex: number,
+	start: number,
+	end = start + 1,
+) {
+	const range = dirty.get(batchIndex);
+	if (range) {
+		range.start = Math.min(range.start, start);
+		range.end = Math.max(range.end, end);
+	} else {
+		dirty.set(batchIndex, { start, end });
+	}
+}
+
+// 把从startIndex开始的count个实例按批次切分，
+// 回调参数为批次序号、批次内的区间 [start, end) 以及该区间在输入中的起始序号
+function forEachBatchSegment(
+	startIndex: number,
+	count: number,
+	batchSize: number,
+	callback: (
+		batchIndex: number,
+		start: number,
+		end: number,
+		inputOffset: number,
+	) => void,
+) {
+	let index = startIndex;
+	const endIndex = startIndex + count;
+	while (index < endIndex) {
+		const batchIndex = Math.floor(index / batchSize);
+		const start = index % batchSize;
+		const end = Math.min(batchSize, start + endIndex - index);
+		callback(batchIndex, start, end, index - startIndex);
+		index += end - start;
+	}
+}
+
+// 标记区间待上传，返回上传的字节数。three.js只在真正上传时清空updateRanges，
+// 被视锥剔除的批次不会上传，所以已有待上传区间时合并成一个，而不是继续追加
+function flushDirtyRange(attribute: THREE.BufferAttribute, range: DirtyRange) {
+	const start = range.start * attribute.itemSize;
+	const length = (range.end - range.start) * attribute.itemSize;
+	const pending = attribute.updateRanges[0];
+	if (pending) {
+		const end = Math.max(pending.start + pending.count, start + length);
+		pending.start = Math.min(pending.start, start);
+		pending.count = end - pending.start;
+		attribute.updateRanges.length = 1;
+	} else {
+		attribute.addUpdateRange(start, length);
+	}
+	attribute.needsUpdate = true;
+	return length * attribute.array.BYTES_PER_ELEMENT;
+}
+
+// 每帧的更新统计
+interface FrameStats {
+	dirtyBatches: number;
+	uploadedBytes: number;
+	boundsRecomputes: number;
+	boundsTime: number;
+}
+
+function createFrameStats(): FrameStats {
+	return {
+		dirtyBatches: 0,
+		uploadedBytes: 0,
+		boundsRecomputes: 0,
+		boundsTime: 0,
+	};
+}
+
+export interface InstancedMeshPoolBatchStats {
+	count: number;
+	drawnCount: number;
+	boundingBox: THREE.Box3 | null;
+}
+
+// getStats的结果；dirtyBatches等按帧统计的数值来自上一帧
+export interface InstancedMeshPoolStats extends FrameStats {
+	instanceCount: number;
+	capacity: number;
+	batchSize: number;
+	batchCount: number;
+	hiddenCount: number;
+	batches: InstancedMeshPoolBatchStats[];
+}
+
+// 自定义的逐实例属性声明
+export interface InstanceAttributeConfig {
+	name: string;
+	itemSize: number;
+	defaultValue?: number | number[];
+}
+
+// 由池创建、需要随批次一起释放的geometry
+const batchGeometries = new WeakSet<THREE.BufferGeometry>();
+
+// 创建共享原始顶点属性、索引和分组的geometry
+function shareGeometry(geometry: THREE.BufferGeometry): THREE.BufferGeometry {
+	const batchGeometry = new THREE.BufferGeometry();
+	batchGeometry.setIndex(geometry.index);
+	for (const name of Object.keys(geometry.attributes)) {
+		const attribute = geometry.getAttribute(name);
+		if (attribute) batchGeometry.setAttribute(name, attribute);
+	}
+	batchGeometry.morphAttributes = geometry.morphAttributes;
+	batchGeometry.morphTargetsRelative = geometry.morphTargetsRelative;
+	for (const group of geometry.groups) {
+		batchGeometry.addGroup(group.start, group.count, group.materialIndex);
+	}
+	batchGeometry.setDrawRange(
+		geometry.drawRange.start,
+		geometry.drawRange.count,
+	);
+
+	batchGeometries.add(batchGeometry);
+	return batchGeometry;
+}
+
+// 为每个批次创建独立的geometry，共享原始顶点属性，只新增逐实例属性
+function createBatchGeometry(
+	geometry: THREE.BufferGeometry,
+	attributes: InstanceAttributeConfig[],
+	batchSize: number,
+): THREE.BufferGeometry {
+	if (attributes.length === 0) return geometry;
+
+	const batchGeometry = shareGeometry(geometry);
+	for (const { name, itemSize, defaultValue = 0 } of attributes) {
+		const array = new Float32Array(batchSize * itemSize);
+		fillAttributeDefaults(array, itemSize, defaultValue, 0, batchSize);
+		const attribute = new THREE.InstancedBufferAttribute(array, itemSize);
+		attribute.setUsage(THREE.DynamicDrawUsage);
+		batchGeometry.setAttribute(name, attribute);
+	}
+
+	return batchGeometry;
+}
+
+// 把批次geometry换成基于新的原始geometry，沿用已有的逐实例属性及其数据
+function rebaseBatchGeometry(
+	batchGeometry: THREE.BufferGeometry,
+	geometry: THREE.BufferGeometry,
+	attributes: InstanceAttributeConfig[],
+): THREE.BufferGeometry {
+	if (attributes.length === 0) return geometry;
+
+	const rebased = shareGeometry(geometry);
+	for (const { name } of attributes) {
+		const attribute = batchGeometry.getAttribute(name);
+		if (attribute) rebased.setAttribute(name, attribute);
+	}
+	if (batchGeometries.has(batchGeometry)) {
+		batchGeometry.dispose();
+	}
+	return rebased;
+}
+
+// LOD层级：相机距离大于等于distance时使用该层级的几何体和材质
+export interface InstanceLodLevel {
+	geometry: THREE.BufferGeometry;
+	material?: THREE.Material;
+	distance: number;
+}
+
+function sameLodLevels(a: InstanceLodLevel[], b: InstanceLodLevel[]) {
+	return (
+		a.length === b.length &&
+		a.every((level, i) => {
+			const other = b[i];
+			return (
+				other !== undefined &&
+				level.geometry === other.geometry &&
+				level.material === other.material &&
+				level.distance === other.distance
+			);
+		})
+	);
+}
+
+// 根据距离选择LOD层级；已处于较粗层级的实例要靠得更近才切回（滞后）
+function selectLodLevel(
+	distances: number[],
+	distance: number,
+	currentLevel: number,
+	hysteresis: number,
+) {
+	let level = 0;
+	for (let l = 1; l < distances.length; l++) {
+		let levelDistance = distances[l] ?? 0;
+		if (currentLevel >= l) {
+			levelDistance -= levelDistance * hysteresis;
+		}
+		if (distance < levelDistance) break;
+		level = l;
+	}
+	return level;
+}
+
+// 创建一个批次的InstancedMesh，所有实例初始化到远距离位置
+function createBatchMesh(
+	geometry: THREE.BufferGeometry,
+	material: THREE.Material,
+	attributes: InstanceAttributeConfig[],
+	batchSize: number,
+	enableColors: boolean,
+): THREE.InstancedMesh {
+	const mesh = new THREE.InstancedMesh(
+		createBatchGeometry(geometry, attributes, batchSize),
+		material,
+		batchSize,
+	);
+
+	// 关键修复：禁用自动边界框计算，因为我们会手动更新
+	mesh.boundingBox = null;
+	mesh.boundingSphere = null;
+
+	// 初始化所有实例的矩阵到远距离位置
+	const matrix = new THREE.Matrix4();
+	for (let i = 0; i < batchSize; i++) {
+		matrix.makeTranslation(0, FarDistance + i, 0);
+		mesh.setMatrixAt(i, matrix);
+	}
+	mesh.instanceMatrix.needsUpdate = true;
+
+	if (enableColors) {
+		const colorArray = new Float32Array(batchSize * 3);
+		mesh.instanceColor = new THREE.InstancedBufferAttribute(colorArray, 3);
+	}
+
+	mesh.count = 0;
+	return mesh;
+}
+
+// 释放批次网格的GPU资源：实例缓冲以及为该批次创建的geometry
+function releaseBatchMesh(mesh: THREE.InstancedMesh) {
+	if (batchGeometries.has(mesh.geometry)) {
+		mesh.geometry.dispose();
+	}
+	mesh.dispose();
+}
+
+// 让批次的实例缓冲在下次渲染时整体上传
+function invalidateBatchBuffers(
+	mesh: THREE.InstancedMesh,
+	attributes: InstanceAttributeConfig[],
+) {
+	const buffers = [
+		mesh.instanceMatrix,
+		mesh.instanceColor,
+		...attributes.map(({ name }) => mesh.geometry.getAttribute(name)),
+	];
+	for (const buffer of buffers) {
+		if (buffer instanceof THREE.BufferAttribute) {
+			buffer.clearUpdateRanges();
+			buffer.needsUpdate = true;
+		}
+	}
+}
+
+// 从场景移除并释放不再使用的批次网格
+function disposeBatchMesh(mesh: THREE.InstancedMesh) {
+	mesh.parent?.remove(mesh);
+	releaseBatchMesh(mesh);
+}
+
+// 将source中第from个实例的一段数据复制到target的第to个位置
+function copyItem(
+	source: THREE.BufferAttribute | THREE.InterleavedBufferAttribute,
+	target: THREE.BufferAttribute | THREE.InterleavedBufferAttribute,
+	from: number,
+	to: number,
+) {
+	const itemSize = source.itemSize;
+	target.array.set(
+		source.array.subarray(from * itemSize, from * itemSize + itemSize),
+		to * itemSize,
+	);
+}
+
+function fillAttributeDefaults(
+	array: THREE.TypedArray,
+	itemSize: number,
+	defaultValue: number | number[],
+	start: number,
+	end: number,
+) {
+	for (let i = start; i < end; i++) {
+		for (let c = 0; c < itemSize; c++) {
+			array[i * itemSize + c] = Array.isArray(defaultValue)
+				? (defaultValue[c] ?? 0)
+				: defaultValue;
+		}
+	}
+}
 
 export interface InstancedMeshPoolRef {
 	getMatrixAt: (index: number, matrix: THREE.Matrix4) => THREE.Matrix4;
@@ -11,22 +449,115 @@ export interface InstancedMeshPoolRef {
 	setColorAt: (index: number, color: THREE.Color) => void;
 	setMatrices: (matrices: THREE.Matrix4[], startIndex?: number) => void;
 	setColors: (colors: THREE.Color[], startIndex?: number) => void;
+	// 连续的矩阵(16)/颜色(3)数据，跨批次直接复制到底层缓冲
+	setMatrixArray: (matrices: Float32Array, startIndex?: number) => void;
+	setColorArray: (colors: Float32Array, startIndex?: number) => void;
 	setInstanceCount: (count: number) => void;
 	updateMatrices: () => void;
 	updateColors: () => void;
 	computeBoundingBox: () => void;
+	// 句柄分配API：句柄在free之后依然稳定，内部通过交换末尾实例保持紧凑
+	allocate: () => number;
+	free: (handle: number) => void;
+	setMatrix: (handle: number, matrix: THREE.Matrix4) => void;
+	getMatrix: (handle: number, matrix: THREE.Matrix4) => THREE.Matrix4;
+	setColor: (handle: number, color: THREE.Color) => void;
+	getColor: (handle: number, color: THREE.Color) => THREE.Color;
+	getIndexOfHandle: (handle: number) => number;
+	getHandleAt: (index: number) => number;
+	// 自定义逐实例属性
+	setAttributeAt: (name: string, index: number, ...values: number[]) => void;
+	getAttributeAt: (name: string, index: number, target?: number[]) => number[];
+	setAttributes: (
+		name: string,
+		values: ArrayLike<number>,
+		startIndex?: number,
+	) => void;
+	updateAttributes: () => void;
+	// 直接写入变换，内部合成矩阵，不产生临时对象
+	setTransformAt: (
+		index: number,
+		position: THREE.Vector3Like,
+		quaternion: THREE.QuaternionLike,
+		scale?: THREE.Vector3Like,
+	) => void;
+	setPositionAt: (index: number, position: THREE.Vector3Like) => void;
+	translateAt: (index: number, offset: THREE.Vector3Like) => void;
+	// positions为连续的xyz；transforms每个实例stride个数，前10个为位置、四元数(xyzw)、缩放
+	setPositions: (positions: ArrayLike<number>, startIndex?: number) => void;
+	setTransforms: (
+		transforms: ArrayLike<number>,
+		stride?: number,
+		startIndex?: number,
+	) => void;
+	// 替换所有批次的geometry/material，实例数据保持不变
+	setGeometry: (geometry: THREE.BufferGeometry) => void;
+	setMaterial: (material: THREE.Material) => void;
+	// 框选/套索选择，返回实例id（与事件回调报告的相同）
+	getInstancesInRect: (rect: ScreenRect) => number[];
+	getInstancesInLasso: (points: ScreenPoint[]) => number[];
+	// 隐藏的实例不参与渲染、包围体和拾取，数据保持不变
+	setVisibleAt: (index: number, visible: boolean) => void;
+	setVisible: (indices: Iterable<number>, visible: boolean) => void;
+	isVisibleAt: (index: number) => boolean;
+	// 预先扩容到至少n个实例，已有数据保持不变
+	reserve: (n: number) => void;
+	// 快照与恢复（数量、矩阵、颜色、自定义属性、可见性和句柄），以及二进制版本
+	exportState: () => InstancedMeshPoolState;
+	importState: (state: InstancedMeshPoolState) => void;
+	exportBinary: () => ArrayBuffer;
+	importBinary: (buffer: ArrayBuffer) => void;
+	getStats: () => InstancedMeshPoolStats;
 }
 
+// PoolInstance 注册到池上的事件回调
+export interface PoolInstanceEvents {
+	onClick?: (e: ThreeEvent<THREE.Event>) => void;
+	onPointerOver?: (e: ThreeEvent<THREE.Event>) => void;
+	onPointerOut?: (e: ThreeEvent<THREE.Event>) => void;
+}
+
+export interface InstancedMeshPoolContextValue {
+	getPool: () => InstancedMeshPoolRef;
+	setInstanceEvents: (
+		handle: number,
+		events: PoolInstanceEvents | null,
+	) => void;
+}
+
+// 供子组件（PoolInstance）访问所在的池
+export const InstancedMeshPoolContext =
+	createContext<InstancedMeshPoolContextValue | null>(null);
+
 export type InstancedMeshPoolProps = {
 	geometry: THREE.BufferGeometry;
 	material: THREE.Material;
 	batchSize?: number;
 	maxInstances?: number;
 	enableColors?: boolean;
+	instanceAttributes?: InstanceAttributeConfig[];
 	frustumCulled?: boolean;
+	instanceCulling?: boolean;
+	maxDrawDistance?: number;
+	lods?: InstanceLodLevel[];
+	lodHysteresis?: number;
+	hoverColor?: THREE.ColorRepresentation;
+	selectedColor?: THREE.ColorRepresentation;
+	selection?: Iterable<number>;
+	boundsUpdateStrategy?: BoundsUpdateStrategy;
+	boundsUpdateInterval?: number;
+	spatialIndex?: boolean;
+	workerBridge?: InstanceWorkerBridge;
+	castShadow?: boolean;
+	receiveShadow?: boolean;
+	renderOrder?: number;
+	layers?: THREE.Layers | number;
+	raycast?: THREE.Object3D["raycast"];
+	onBatchCreated?: (mesh: THREE.InstancedMesh, batchIndex: number) => void;
 	onClick?: (e: ThreeEvent<THREE.Event>, index: number) => void;
 	onPointerOver?: (e: ThreeEvent<THREE.Event>, index: number) => void;
 	onPointerOut?: (e: ThreeEvent<THREE.Event>, index: number) => void;
+	children?: ReactNode;
 };
 
 export const InstancedMeshPool = forwardRef<
@@ -39,64 +570,811 @@ export const InstancedMeshPool = forwardRef<
 		batchSize = 1000,
 		maxInstances = 1000,
 		enableColors = false,
+		instanceAttributes = [],
 		frustumCulled = false,
+		instanceCulling = false,
+		maxDrawDistance = Number.POSITIVE_INFINITY,
+		lods = [],
+		lodHysteresis = 0.1,
+		hoverColor,
+		selectedColor,
+		selection,
+		boundsUpdateStrategy = "every-frame",
+		boundsUpdateInterval = 0.5,
+		spatialIndex = false,
+		workerBridge,
+		castShadow = false,
+		receiveShadow = false,
+		renderOrder = 0,
+		layers,
+		raycast,
+		onBatchCreated,
 		onClick,
 		onPointerOver,
 		onPointerOut,
+		children,
 	}: InstancedMeshPoolProps,
 	ref,
 ) {
 	const meshGroups = useRef<THREE.InstancedMesh[]>([]);
+	// 已创建批次使用的批次大小，batchSize属性变化时在resizeBatches中重新分批
 	const batchSizeRef = useRef(batchSize);
+	const reservedInstances = useRef(0);
+	// 已被替换、等待提交后释放的网格
+	const retiredMeshes = useRef<THREE.InstancedMesh[]>([]);
+	const onBatchCreatedRef = useRef(onBatchCreated);
+	onBatchCreatedRef.current = onBatchCreated;
+
+	// 当前使用的geometry/material，可能来自属性也可能来自setGeometry/setMaterial；
+	// 只有属性本身变化时才用属性覆盖
+	const geometryRef = useRef(geometry);
+	const materialRef = useRef(material);
+	const geometryProp = useRef(geometry);
+	const materialProp = useRef(material);
+	const [, forceLayout] = useReducer((version: number) => version + 1, 0);
 
 	// 内部缓存状态 - 跟踪需要更新的批次
 	const currentInstanceCount = useRef(0);
-	const dirtyMatrixBatches = useRef<Set<number>>(new Set());
-	const dirtyColorBatches = useRef<Set<number>>(new Set());
+	const dirtyMatrixBatches = useRef<DirtyBatches>(new Map());
+	const dirtyColorBatches = useRef<DirtyBatches>(new Map());
+	const dirtyAttributeBatches = useRef<Map<string, DirtyBatches>>(new Map());
+	const instanceAttributesRef = useRef(instanceAttributes);
+
+	// 按紧凑索引记录的隐藏标记（1为隐藏）；有实例被隐藏时改为通过渲染网格压缩绘制
+	const hiddenInstances = useRef(new Uint8Array(0));
+	const hiddenCount = useRef(0);
+	const usesVisibility = useRef(false);
+	// 当前是否通过渲染网格绘制；此时批次本身不在场景中，它们的缓冲不会被上传
+	const drawsRenderGroups = useRef(false);
+	// 数据或隐藏标记变化、需要重新压缩到渲染网格的批次；没有剔除和LOD时只更新这些批次
+	const staleRenderBatches = useRef<Set<number>>(new Set());
+
+	// 当前帧累计的统计，以及上一帧的结果
+	const frameStats = useRef<FrameStats>(createFrameStats());
+	const lastFrameStats = useRef<FrameStats>(createFrameStats());
+
+	// 等待完整重算包围体的批次，以及上次重算的时间（秒）
+	const pendingBoundsBatches = useRef<Set<number>>(new Set());
+	const lastBoundsUpdate = useRef(0);
+
+	// 稳定句柄 <-> 紧凑索引 的双向映射
+	const handleToIndex = useRef<Map<number, number>>(new Map());
+	const indexToHandle = useRef<number[]>([]);
+	const nextHandle = useRef(0);
+
+	// PoolInstance 子组件按句柄注册的事件回调
+	const instanceEvents = useRef<Map<number, PoolInstanceEvents>>(new Map());
+
+	// 悬停/选中高亮：高亮前的原始颜色按实例id保存，高亮期间setColorAt只更新这里
+	const baseColors = useRef<Map<number, THREE.Color>>(new Map());
+	const hoveredId = useRef<number | null>(null);
+	const selectedIds = useRef<Set<number>>(new Set());
+	const getThree = useThree((state) => state.get);
+
+	// 逐实例剔除/LOD：每个批次的每个LOD层级对应一个只包含可见实例的渲染网格，
+	// renderMaps记录渲染网格中的实例对应批次内的哪个实例，lodLevels记录实例当前的层级
+	const renderGroups = useRef<THREE.InstancedMesh[][]>([]);
+	const renderMaps = useRef<Int32Array[][]>([]);
+	const renderSlots = useRef<Int32Array[][]>([]);
+	const lodLevels = useRef<Uint8Array[]>([]);
+	const lodDistances = useRef<number[]>([0]);
+	const builtLods = useRef<InstanceLodLevel[]>([]);
+
+	// 空间索引：每个批次一棵BVH，矩阵变化后标记过期，在下一次射线检测时更新
+	const spatialIndexes = useRef<InstanceBVH[]>([]);
+	const staleIndexBatches = useRef<Set<number>>(new Set());
 
 	// 检查是否需要计算边界框
 	const shouldComputeBounds = useCallback(() => {
-		return !!(onClick || onPointerOver || onPointerOut || frustumCulled);
-	}, [onClick, onPointerOver, onPointerOut, frustumCulled]);
+		return !!(
+			onClick ||
+			onPointerOver ||
+			onPointerOut ||
+			frustumCulled ||
+			hoverColor !== undefined ||
+			instanceEvents.current.size > 0
+		);
+	}, [onClick, onPointerOver, onPointerOut, frustumCulled, hoverColor]);
+
+	// 重算单个批次的包围体，排除隐藏的实例
+	const recomputeBounds = useCallback((batchIndex: number) => {
+		const mesh = meshGroups.current[batchIndex];
+		if (!mesh) return;
+		recomputeBatchBounds(
+			mesh,
+			hiddenCount.current > 0 ? hiddenInstances.current : undefined,
+			batchIndex * batchSizeRef.current,
+		);
+	}, []);
 
 	// 封装的计算函数，处理dirty batches并清除
 	const processUpdatesAndClearDirtyBatches = useCallback(() => {
 		const needsBoundsUpdate = shouldComputeBounds();
+		const stats = frameStats.current;
+		// 通过渲染网格绘制时不给批次累积更新区间（three.js只在上传时清空），
+		// 变化由updateRenderGroups复制到渲染网格后上传
+		const uploadBatches = !drawsRenderGroups.current;
+		const staleBatches = staleRenderBatches.current;
 
 		// 处理dirty的矩阵批次
 		if (dirtyMatrixBatches.current.size > 0) {
-			dirtyMatrixBatches.current.forEach((batchIndex) => {
+			dirtyMatrixBatches.current.forEach((range, batchIndex) => {
 				const mesh = meshGroups.current[batchIndex];
-				if (mesh) {
-					mesh.instanceMatrix.needsUpdate = true;
-
-					// 只有在需要时才计算边界框
-					if (needsBoundsUpdate) {
-						mesh.boundingBox = null;
-						mesh.boundingSphere = null;
-						mesh.computeBoundingBox();
-						mesh.computeBoundingSphere();
-					}
+				if (mesh && uploadBatches) {
+					stats.uploadedBytes += flushDirtyRange(mesh.instanceMatrix, range);
 				}
+				flushedBatches.add(batchIndex);
 			});
 			dirtyMatrixBatches.current.clear();
 		}
 
+		// 只有在需要时才按策略重算边界框
+		if (
+			needsBoundsUpdate &&
+			boundsUpdateStrategy !== "manual" &&
+			pendingBoundsBatches.current.size > 0
+		) {
+			const now = performance.now() / 1000;
+			if (
+				boundsUpdateStrategy === "every-frame" ||
+				now - lastBoundsUpdate.current >= boundsUpdateInterval
+			) {
+				const startTime = performance.now();
+				pendingBoundsBatches.current.forEach((batchIndex) => {
+					recomputeBounds(batchIndex);
+					// 渲染网格复用批次的包围体
+					staleBatches.add(batchIndex);
+				});
+				stats.boundsRecomputes += pendingBoundsBatches.current.size;
+				stats.boundsTime += performance.now() - startTime;
+				pendingBoundsBatches.current.clear();
+				lastBoundsUpdate.current = now;
+			}
+		}
+
 		// 处理dirty的颜色批次
 		if (dirtyColorBatches.current.size > 0) {
-			dirtyColorBatches.current.forEach((batchIndex) => {
+			dirtyColorBatches.current.forEach((range, batchIndex) => {
 				const mesh = meshGroups.current[batchIndex];
-				if (mesh?.instanceColor) {
-					mesh.instanceColor.needsUpdate = true;
+				if (mesh?.instanceColor && uploadBatches) {
+					stats.uploadedBytes += flushDirtyRange(mesh.instanceColor, range);
 				}
+				flushedBatches.add(batchIndex);
 			});
 			dirtyColorBatches.current.clear();
 		}
-	}, [shouldComputeBounds]);
 
-	useImperativeHandle(
-		ref,
-		() => ({
+		// 处理dirty的自定义属性批次
+		dirtyAttributeBatches.current.forEach((batches, name) => {
+			batches.forEach((range, batchIndex) => {
+				const attribute =
+					meshGroups.current[batchIndex]?.geometry.getAttribute(name);
+				if (attribute instanceof THREE.BufferAttribute && uploadBatches) {
+					stats.uploadedBytes += flushDirtyRange(attribute, range);
+				}
+				flushedBatches.add(batchIndex);
+			});
+			batches.clear();
+		});
+
+		// 一个批次的多个缓冲只计一次
+		stats.dirtyBatches += flushedBatches.size;
+		if (!uploadBatches) {
+			for (const batchIndex of flushedBatches) staleBatches.add(batchIndex);
+		}
+		flushedBatches.clear();
+	}, [
+		shouldComputeBounds,
+		boundsUpdateStrategy,
+		boundsUpdateInterval,
+		recomputeBounds,
+	]);
+
+	// 标记矩阵区间 [start, end) 为dirty，并按策略记录包围体的变化
+	const markMatrixDirty = useCallback(
+		(batchIndex: number, start: number, end = start + 1) => {
+			markDirty(dirtyMatrixBatches.current, batchIndex, start, end);
+			staleIndexBatches.current.add(batchIndex);
+
+			if (!shouldComputeBounds() || boundsUpdateStrategy === "manual") return;
+			if (boundsUpdateStrategy === "expand-only") {
+				const mesh = meshGroups.current[batchIndex];
+				if (mesh) {
+					const offset = batchIndex * batchSizeRef.current;
+					for (let i = start; i < end; i++) {
+						if (hiddenInstances.current[offset + i] !== 1) {
+							expandBatchBounds(mesh, i);
+						}
+					}
+				}
+			}
+			// expand-only时用于周期性收缩，其余策略用于完整重算
+			pendingBoundsBatches.current.add(batchIndex);
+		},
+		[shouldComputeBounds, boundsUpdateStrategy],
+	);
+
+	// 标记某个自定义属性的批次为dirty
+	const markAttributeDirty = useCallback(
+		(name: string, batchIndex: number, instanceIndex: number) => {
+			let batches = dirtyAttributeBatches.current.get(name);
+			if (!batches) {
+				batches = new Map();
+				dirtyAttributeBatches.current.set(name, batches);
+			}
+			markDirty(batches, batchIndex, instanceIndex);
+		},
+		[],
+	);
+
+	// 根据实例数量更新每个批次的count
+	const applyInstanceCount = useCallback((count: number) => {
+		currentInstanceCount.current = count;
+		let offset = 0;
+		for (let g = 0; g < meshGroups.current.length; g++) {
+			const group = meshGroups.current[g];
+			if (group) {
+				const groupCount = Math.max(
+					0,
+					Math.min(count - offset, batchSizeRef.current),
+				);
+				// count变化后包围体和渲染网格也需要更新
+				if (group.count !== groupCount) {
+					pendingBoundsBatches.current.add(g);
+					staleRenderBatches.current.add(g);
+				}
+				group.count = groupCount;
+				offset += batchSizeRef.current;
+			}
+		}
+	}, []);
+
+	// 将一个实例的矩阵和颜色复制到另一个槽位（用于free时的交换压缩）
+	const copyInstance = useCallback(
+		(from: number, to: number) => {
+			const fromMesh =
+				meshGroups.current[Math.floor(from / batchSizeRef.current)];
+			const toGroupIndex = Math.floor(to / batchSizeRef.current);
+			const toMesh = meshGroups.current[toGroupIndex];
+			if (!fromMesh || !toMesh) return;
+
+			const fromInstance = from % batchSizeRef.current;
+			const toInstance = to % batchSizeRef.current;
+
+			copyItem(
+				fromMesh.instanceMatrix,
+				toMesh.instanceMatrix,
+				fromInstance,
+				toInstance,
+			);
+			markMatrixDirty(toGroupIndex, toInstance);
+
+			if (fromMesh.instanceColor && toMesh.instanceColor) {
+				copyItem(
+					fromMesh.instanceColor,
+					toMesh.instanceColor,
+					fromInstance,
+					toInstance,
+				);
+				markDirty(dirtyColorBatches.current, toGroupIndex, toInstance);
+			}
+
+			for (const { name } of instanceAttributesRef.current) {
+				const fromAttribute = fromMesh.geometry.getAttribute(name);
+				const toAttribute = toMesh.geometry.getAttribute(name);
+				if (!fromAttribute || !toAttribute) continue;
+				copyItem(fromAttribute, toAttribute, fromInstance, toInstance);
+				markAttributeDirty(name, toGroupIndex, toInstance);
+			}
+		},
+		[markMatrixDirty, markAttributeDirty],
+	);
+
+	// 移除所有渲染网格，之后在渲染时按需重建
+	const clearRenderGroups = useCallback(() => {
+		for (const targets of renderGroups.current) {
+			retiredMeshes.current.push(...targets);
+		}
+		renderGroups.current = [];
+		renderMaps.current = [];
+		renderSlots.current = [];
+		lodLevels.current = [];
+	}, []);
+
+	// 调整批次数量使容量至少为capacity；批次大小变化时把已有实例重新分配到新的批次中。
+	// 被移除的网格在提交后释放，返回批次布局是否发生了变化
+	const resizeBatches = useCallback(
+		(nextBatchSize: number, capacity: number) => {
+			const previousBatchSize = batchSizeRef.current;
+			const neededGroups = Math.ceil(capacity / nextBatchSize);
+			const rebatch =
+				nextBatchSize !== previousBatchSize && meshGroups.current.length > 0;
+			if (!rebatch && meshGroups.current.length === neededGroups) return false;
+
+			const createMesh = (batchIndex: number) => {
+				const mesh = createBatchMesh(
+					geometryRef.current,
+					materialRef.current,
+					instanceAttributesRef.current,
+					nextBatchSize,
+					enableColors,
+				);
+				mesh.frustumCulled = frustumCulled;
+				onBatchCreatedRef.current?.(mesh, batchIndex);
+				return mesh;
+			};
+
+			// 容量缩小时丢弃超出部分的实例
+			const previousCount = currentInstanceCount.current;
+			const count = Math.min(previousCount, neededGroups * nextBatchSize);
+			for (let i = count; i < previousCount; i++) {
+				const handle = indexToHandle.current[i];
+				if (handle !== undefined && handle >= 0) {
+					handleToIndex.current.delete(handle);
+					baseColors.current.delete(handle);
+				}
+			}
+			indexToHandle.current.length = Math.min(
+				indexToHandle.current.length,
+				count,
+			);
+
+			// 隐藏标记按紧凑索引保存，重新分批不影响，只需调整长度
+			const nextCapacity = neededGroups * nextBatchSize;
+			if (hiddenInstances.current.length !== nextCapacity) {
+				const hidden = new Uint8Array(nextCapacity);
+				hidden.set(hiddenInstances.current.subarray(0, nextCapacity));
+				hiddenInstances.current = hidden;
+				hiddenCount.current = hidden.reduce((sum, flag) => sum + flag, 0);
+			}
+
+			if (rebatch) {
+				const previous = meshGroups.current;
+				const next = Array.from({ length: neededGroups }, (_, g) =>
+					createMesh(g),
+				);
+				for (let i = 0; i < count; i++) {
+					const from = previous[Math.floor(i / previousBatchSize)];
+					const to = next[Math.floor(i / nextBatchSize)];
+					if (!from || !to) continue;
+					const fromInstance = i % previousBatchSize;
+					const toInstance = i % nextBatchSize;
+
+					copyItem(
+						from.instanceMatrix,
+						to.instanceMatrix,
+						fromInstance,
+						toInstance,
+					);
+					if (from.instanceColor && to.instanceColor) {
+						copyItem(
+							from.instanceColor,
+							to.instanceColor,
+							fromInstance,
+							toInstance,
+						);
+					}
+					for (const { name } of instanceAttributesRef.current) {
+						const fromAttribute = from.geometry.getAttribute(name);
+						const toAttribute = to.geometry.getAttribute(name);
+						if (fromAttribute && toAttribute) {
+							copyItem(fromAttribute, toAttribute, fromInstance, toInstance);
+						}
+					}
+				}
+
+				retiredMeshes.current.push(...previous);
+				meshGroups.current = next;
+
+				// 新批次的缓冲整体上传，旧的dirty区间和索引都已失效
+				dirtyMatrixBatches.current.clear();
+				dirtyColorBatches.current.clear();
+				dirtyAttributeBatches.current.clear();
+				pendingBoundsBatches.current.clear();
+				next.forEach((_, g) => {
+					pendingBoundsBatches.current.add(g);
+				});
+				spatialIndexes.current = [];
+				staleIndexBatches.current.clear();
+				clearRenderGroups();
+			} else {
+				while (meshGroups.current.length < neededGroups) {
+					meshGroups.current.push(createMesh(meshGroups.current.length));
+				}
+				while (meshGroups.current.length > neededGroups) {
+					const mesh = meshGroups.current.pop();
+					if (mesh) retiredMeshes.current.push(mesh);
+				}
+				spatialIndexes.current.length = Math.min(
+					spatialIndexes.current.length,
+					neededGroups,
+				);
+			}
+
+			batchSizeRef.current = nextBatchSize;
+			applyInstanceCount(count);
+			return true;
+		},
+		[enableColors, frustumCulled, applyInstanceCount, clearRenderGroups],
+	);
+
+	// 把新的geometry应用到所有批次和基础层级的渲染网格，包围体需要重算
+	const applyGeometry = useCallback((next: THREE.BufferGeometry) => {
+		if (geometryRef.current === next) return;
+		geometryRef.current = next;
+
+		const attributes = instanceAttributesRef.current;
+		meshGroups.current.forEach((mesh, g) => {
+			mesh.geometry = rebaseBatchGeometry(mesh.geometry, next, attributes);
+			mesh.boundingBox = null;
+			mesh.boundingSphere = null;
+			pendingBoundsBatches.current.add(g);
+			staleIndexBatches.current.add(g);
+			staleRenderBatches.current.add(g);
+
+			const baseTarget = renderGroups.current[g]?.[0];
+			if (baseTarget) {
+				baseTarget.geometry = rebaseBatchGeometry(
+					baseTarget.geometry,
+					next,
+					attributes,
+				);
+			}
+		});
+	}, []);
+
+	// 替换材质；LOD层级未指定材质时也使用它
+	const applyMaterial = useCallback((next: THREE.Material) => {
+		if (materialRef.current === next) return;
+		materialRef.current = next;
+
+		for (const mesh of meshGroups.current) {
+			mesh.material = next;
+		}
+		for (const targets of renderGroups.current) {
+			targets.forEach((mesh, level) => {
+				mesh.material =
+					level === 0 ? next : (builtLods.current[level - 1]?.material ?? next);
+			});
+		}
+	}, []);
+
+	// 渲染阶段：逐实例剔除（相机视锥和最大绘制距离）并按距离选择LOD层级，
+	// 把每个层级的可见实例压缩到对应渲染网格的前部；指定batches时只更新这些批次
+	const updateRenderGroups = useCallback(
+		(camera: THREE.Camera, batches?: ReadonlySet<number>) => {
+			projScreenMatrix.multiplyMatrices(
+				camera.projectionMatrix,
+				camera.matrixWorldInverse,
+			);
+			tempFrustum.setFromProjectionMatrix(projScreenMatrix);
+			const cameraPosition = tempVector.setFromMatrixPosition(
+				camera.matrixWorld,
+			);
+			const checkDistance = instanceCulling && Number.isFinite(maxDrawDistance);
+			const levelDistances = lodDistances.current;
+
+			for (let g = 0; g < meshGroups.current.length; g++) {
+				if (batches && !batches.has(g)) continue;
+				const source = meshGroups.current[g];
+				const targets = renderGroups.current[g];
+				const instanceMaps = renderMaps.current[g];
+				const instanceSlots = renderSlots.current[g];
+				const instanceLevels = lodLevels.current[g];
+				const firstTarget = targets?.[0];
+				if (!source || !targets || !instanceMaps || !instanceLevels) continue;
+				if (!firstTarget || !instanceSlots) continue;
+
+				const geometry = source.geometry;
+				if (geometry.boundingSphere === null) geometry.computeBoundingSphere();
+				const geometrySphere = geometry.boundingSphere;
+				if (!geometrySphere) continue;
+
+				const sourceMatrices = source.instanceMatrix.array;
+				const levelCounts = targets.map(() => 0);
+				const hidden = hiddenInstances.current;
+				const offset = g * batchSizeRef.current;
+				for (let i = 0; i < source.count; i++) {
+					if (hidden[offset + i] === 1) continue;
+
+					tempMatrix
+						.fromArray(sourceMatrices, i * 16)
+						.premultiply(firstTarget.matrixWorld);
+					tempSphere.copy(geometrySphere).applyMatrix4(tempMatrix);
+
+					if (instanceCulling && !tempFrustum.intersectsSphere(tempSphere)) {
+						continue;
+					}
+
+					const distance = tempSphere.center.distanceTo(cameraPosition);
+					if (checkDistance && distance - tempSphere.radius > maxDrawDistance) {
+						continue;
+					}
+
+					const level = selectLodLevel(
+						levelDistances,
+						distance,
+						instanceLevels[i] ?? 0,
+						lodHysteresis,
+					);
+					instanceLevels[i] = level;
+
+					const target = targets[level];
+					const instanceMap = instanceMaps[level];
+					const slotMap = instanceSlots[level];
+					const slot = levelCounts[level] ?? 0;
+					if (!target || !instanceMap || !slotMap) continue;
+
+					copyItem(source.instanceMatrix, target.instanceMatrix, i, slot);
+					if (source.instanceColor && target.instanceColor) {
+						copyItem(source.instanceColor, target.instanceColor, i, slot);
+					}
+					for (const { name } of instanceAttributesRef.current) {
+						const from = geometry.getAttribute(name);
+						const to = target.geometry.getAttribute(name);
+						if (from && to) copyItem(from, to, i, slot);
+					}
+					instanceMap[slot] = i;
+					slotMap[i] = slot;
+					levelCounts[level] = slot + 1;
+				}
+
+				targets.forEach((target, level) => {
+					const visibleCount = levelCounts[level] ?? 0;
+					target.count = visibleCount;
+					if (visibleCount > 0) {
+						const range = { start: 0, end: visibleCount };
+						let bytes = flushDirtyRange(target.instanceMatrix, range);
+						if (target.instanceColor) {
+							bytes += flushDirtyRange(target.instanceColor, range);
+						}
+						for (const { name } of instanceAttributesRef.current) {
+							const attribute = target.geometry.getAttribute(name);
+							if (attribute instanceof THREE.BufferAttribute) {
+								bytes += flushDirtyRange(attribute, range);
+							}
+						}
+						frameStats.current.uploadedBytes += bytes;
+					}
+
+					// 可见实例是批次实例的子集，直接复用批次的包围体用于射线检测
+					target.boundingBox = source.boundingBox;
+					target.boundingSphere = source.boundingSphere;
+				});
+			}
+		},
+		[instanceCulling, maxDrawDistance, lodHysteresis],
+	);
+
+	// 取得批次的BVH，过期时按批次内所有层级几何体的包围盒更新
+	const getSpatialIndex = useCallback((groupIndex: number) => {
+		const source = meshGroups.current[groupIndex];
+		if (!source) return undefined;
+
+		let index = spatialIndexes.current[groupIndex];
+		if (!index) {
+			index = new InstanceBVH();
+			spatialIndexes.current[groupIndex] = index;
+			staleIndexBatches.current.add(groupIndex);
+		}
+
+		if (
+			staleIndexBatches.current.has(groupIndex) ||
+			index.instanceCount !== source.count
+		) {
+			indexBox.makeEmpty();
+			const targets = renderGroups.current[groupIndex] ?? [source];
+			for (const mesh of targets) {
+				if (mesh.geometry.boundingBox === null) {
+					mesh.geometry.computeBoundingBox();
+				}
+				if (mesh.geometry.boundingBox) {
+					indexBox.union(mesh.geometry.boundingBox);
+				}
+			}
+			index.update(source.instanceMatrix.array, source.count, indexBox);
+			staleIndexBatches.current.delete(groupIndex);
+		}
+		return index;
+	}, []);
+
+	// 用BVH代替InstancedMesh逐实例遍历的射线检测，只对候选实例做精确相交。
+	// 渲染网格（剔除/LOD）通过renderSlots把批次内的实例映射到渲染网格中的位置
+	const raycastWithIndex = useCallback(
+		(
+			target: THREE.InstancedMesh,
+			groupIndex: number,
+			level: number,
+			raycaster: THREE.Raycaster,
+			intersects: THREE.Intersection[],
+		) => {
+			const source = meshGroups.current[groupIndex];
+			const index = getSpatialIndex(groupIndex);
+			if (!source || !index || target.count === 0) return;
+
+			const instanceMap = renderMaps.current[groupIndex]?.[level];
+			const slotMap = renderSlots.current[groupIndex]?.[level];
+			const isRenderMesh = target !== source;
+			if (isRenderMesh && (!instanceMap || !slotMap)) return;
+
+			raycastMesh.geometry = target.geometry;
+			raycastMesh.material = target.material;
+			inverseMatrix.copy(target.matrixWorld).invert();
+			localRay.copy(raycaster.ray).applyMatrix4(inverseMatrix);
+
+			index.intersectRay(localRay, (i) => {
+				if (i >= source.count) return;
+
+				let instanceId = i;
+				if (isRenderMesh) {
+					// 只保留本帧在该层级可见的实例
+					const slot = slotMap?.[i] ?? -1;
+					if (slot < 0 || slot >= target.count || instanceMap?.[slot] !== i) {
+						return;
+					}
+					instanceId = slot;
+				}
+
+				tempMatrix.fromArray(source.instanceMatrix.array, i * 16);
+				raycastMesh.matrixWorld.multiplyMatrices(
+					target.matrixWorld,
+					tempMatrix,
+				);
+				raycastMesh.raycast(raycaster, raycastIntersects);
+				for (const intersect of raycastIntersects) {
+					intersect.instanceId = instanceId;
+					intersect.object = target;
+					intersects.push(intersect);
+				}
+				raycastIntersects.length = 0;
+			});
+		},
+		[getSpatialIndex],
+	);
+
+	// 把句柄解析为当前的紧凑索引，无效句柄返回-1
+	const resolveHandle = useCallback((handle: number) => {
+		return handleToIndex.current.get(handle) ?? -1;
+	}, []);
+
+	// 事件、选择使用的实例id：通过allocate分配的实例为句柄，否则为紧凑索引
+	const indexToId = useCallback((index: number) => {
+		const handle = indexToHandle.current[index];
+		return handle !== undefined && handle >= 0 ? handle : index;
+	}, []);
+
+	const idToIndex = useCallback((id: number) => {
+		return handleToIndex.current.size > 0
+			? (handleToIndex.current.get(id) ?? -1)
+			: id;
+	}, []);
+
+	// 根据悬停/选中状态应用或恢复实例的显示颜色
+	const refreshHighlight = useCallback(
+		(id: number) => {
+			const index = idToIndex(id);
+			const groupIndex = Math.floor(index / batchSizeRef.current);
+			const instanceIndex = index % batchSizeRef.current;
+			const mesh = meshGroups.current[groupIndex];
+			if (index < 0 || index >= currentInstanceCount.current) {
+				baseColors.current.delete(id);
+				return;
+			}
+			if (!mesh?.instanceColor) return;
+
+			let highlight: THREE.ColorRepresentation | undefined;
+			if (hoveredId.current === id && hoverColor !== undefined) {
+				highlight = hoverColor;
+			} else if (selectedIds.current.has(id) && selectedColor !== undefined) {
+				highlight = selectedColor;
+			}
+
+			const base = baseColors.current.get(id);
+			if (highlight === undefined) {
+				if (base) {
+					mesh.setColorAt(instanceIndex, base);
+					markDirty(dirtyColorBatches.current, groupIndex, instanceIndex);
+					baseColors.current.delete(id);
+				}
+				return;
+			}
+
+			if (!base) {
+				const saved = new THREE.Color();
+				mesh.getColorAt(instanceIndex, saved);
+				baseColors.current.set(id, saved);
+			}
+			mesh.setColorAt(instanceIndex, tempColor.set(highlight));
+			markDirty(dirtyColorBatches.current, groupIndex, instanceIndex);
+		},
+		[hoverColor, selectedColor, idToIndex],
+	);
+
+	// 把实例位置投影到画布像素坐标，收集满足条件的实例id
+	const collectInstancesOnScreen = useCallback(
+		(test: (x: number, y: number) => boolean) => {
+			const { camera, size } = getThree();
+			const result: number[] = [];
+			for (let g = 0; g < meshGroups.current.length; g++) {
+				const mesh = meshGroups.current[g];
+				if (!mesh) continue;
+				// 启用剔除/LOD时批次网格不在场景中，使用渲染网格的世界矩阵
+				const worldMatrix = (renderGroups.current[g]?.[0] ?? mesh).matrixWorld;
+				const matrices = mesh.instanceMatrix.array;
+				const offset = g * batchSizeRef.current;
+				for (let i = 0; i < mesh.count; i++) {
+					if (hiddenInstances.current[offset + i] === 1) continue;
+					screenPosition
+						.set(
+							matrices[i * 16 + 12] ?? 0,
+							matrices[i * 16 + 13] ?? 0,
+							matrices[i * 16 + 14] ?? 0,
+						)
+						.applyMatrix4(worldMatrix)
+						.project(camera);
+					if (screenPosition.z < -1 || screenPosition.z > 1) continue;
+
+					const x = ((screenPosition.x + 1) / 2) * size.width;
+					const y = ((1 - screenPosition.y) / 2) * size.height;
+					if (test(x, y)) {
+						result.push(indexToId(g * batchSizeRef.current + i));
+					}
+				}
+			}
+			return result;
+		},
+		[getThree, indexToId],
+	);
+
+	// 修改实例的隐藏标记，返回是否发生了变化；从全部可见变为有隐藏时切换到压缩绘制
+	const setInstanceVisible = useCallback((index: number, visible: boolean) => {
+		const hidden = hiddenInstances.current;
+		const flag = visible ? 0 : 1;
+		if (index < 0 || index >= hidden.length || hidden[index] === flag) {
+			return false;
+		}
+		hidden[index] = flag;
+		hiddenCount.current += visible ? -1 : 1;
+		const batchIndex = Math.floor(index / batchSizeRef.current);
+		pendingBoundsBatches.current.add(batchIndex);
+		staleRenderBatches.current.add(batchIndex);
+
+		if (!visible && !usesVisibility.current) {
+			usesVisibility.current = true;
+			forceLayout();
+		}
+		return true;
+	}, []);
+
+	// 按紧凑索引读出前count个实例的一段逐实例数据
+	const readInstanceData = useCallback(
+		(
+			count: number,
+			itemSize: number,
+			getArray: (mesh: THREE.InstancedMesh) => THREE.TypedArray | undefined,
+		) => {
+			const values = new Float32Array(count * itemSize);
+			forEachBatchSegment(
+				0,
+				count,
+				batchSizeRef.current,
+				(groupIndex, start, end, inputOffset) => {
+					const mesh = meshGroups.current[groupIndex];
+					const array = mesh && getArray(mesh);
+					if (!array) return;
+					values.set(
+						array.subarray(start * itemSize, end * itemSize),
+						inputOffset * itemSize,
+					);
+				},
+			);
+			return values;
+		},
+		[],
+	);
+
+	const poolApi = useMemo(() => {
+		const api: InstancedMeshPoolRef = {
 			getMatrixAt: (index: number, matrix: THREE.Matrix4) => {
 				const groupIndex = Math.floor(index / batchSizeRef.current);
 				const instanceIndex = index % batchSizeRef.current;
@@ -112,10 +1390,12 @@ export const InstancedMeshPool = forwardRef<
 				const mesh = meshGroups.current[groupIndex];
 				if (mesh) {
 					mesh.setMatrixAt(instanceIndex, matrix);
-					dirtyMatrixBatches.current.add(groupIndex);
+					markMatrixDirty(groupIndex, instanceIndex);
 				}
 			},
 			getColorAt: (index: number, color: THREE.Color) => {
+				const base = baseColors.current.get(indexToId(index));
+				if (base) return color.copy(base);
 				const groupIndex = Math.floor(index / batchSizeRef.current);
 				const instanceIndex = index % batchSizeRef.current;
 				const mesh = meshGroups.current[groupIndex];
@@ -125,17 +1405,21 @@ export const InstancedMeshPool = forwardRef<
 				return color;
 			},
 			setColorAt: (index: number, color: THREE.Color) => {
+				// 高亮中的实例只更新原始颜色，取消高亮时恢复
+				const base = baseColors.current.get(indexToId(index));
+				if (base) {
+					base.copy(color);
+					return;
+				}
 				const groupIndex = Math.floor(index / batchSizeRef.current);
 				const instanceIndex = index % batchSizeRef.current;
 				const mesh = meshGroups.current[groupIndex];
 				if (mesh?.instanceColor) {
 					mesh.setColorAt(instanceIndex, color);
-					dirtyColorBatches.current.add(groupIndex);
+					markDirty(dirtyColorBatches.current, groupIndex, instanceIndex);
 				}
 			},
 			setMatrices: (matrices: THREE.Matrix4[], startIndex = 0) => {
-				const affectedBatches = new Set<number>();
-
 				matrices.forEach((matrix, i) => {
 					const index = startIndex + i;
 					const groupIndex = Math.floor(index / batchSizeRef.current);
@@ -143,45 +1427,77 @@ export const InstancedMeshPool = forwardRef<
 					const mesh = meshGroups.current[groupIndex];
 					if (mesh) {
 						mesh.setMatrixAt(instanceIndex, matrix);
-						affectedBatches.add(groupIndex);
+						// 标记受影响的区间为dirty
+						markMatrixDirty(groupIndex, instanceIndex);
 					}
 				});
-
-				// 标记受影响的批次为dirty
-				affectedBatches.forEach((batchIndex) => {
-					dirtyMatrixBatches.current.add(batchIndex);
-				});
 			},
 			setColors: (colors: THREE.Color[], startIndex = 0) => {
-				const affectedBatches = new Set<number>();
-
 				colors.forEach((color, i) => {
 					const index = startIndex + i;
+					const base = baseColors.current.get(indexToId(index));
+					if (base) {
+						base.copy(color);
+						return;
+					}
 					const groupIndex = Math.floor(index / batchSizeRef.current);
 					const instanceIndex = index % batchSizeRef.current;
 					const mesh = meshGroups.current[groupIndex];
 					if (mesh?.instanceColor) {
 						mesh.setColorAt(instanceIndex, color);
-						affectedBatches.add(groupIndex);
+						// 标记受影响的区间为dirty
+						markDirty(dirtyColorBatches.current, groupIndex, instanceIndex);
 					}
 				});
+			},
+			setMatrixArray: (matrices: Float32Array, startIndex = 0) => {
+				const total = Math.floor(matrices.length / 16);
+				forEachBatchSegment(
+					startIndex,
+					total,
+					batchSizeRef.current,
+					(groupIndex, start, end, inputOffset) => {
+						const mesh = meshGroups.current[groupIndex];
+						if (!mesh) return;
+						mesh.instanceMatrix.array.set(
+							matrices.subarray(
+								inputOffset * 16,
+								(inputOffset + end - start) * 16,
+							),
+							start * 16,
+						);
+						markMatrixDirty(groupIndex, start, end);
+					},
+				);
+			},
+			setColorArray: (colors: Float32Array, startIndex = 0) => {
+				const total = Math.floor(colors.length / 3);
+				forEachBatchSegment(
+					startIndex,
+					total,
+					batchSizeRef.current,
+					(groupIndex, start, end, inputOffset) => {
+						const colorAttribute =
+							meshGroups.current[groupIndex]?.instanceColor;
+						if (!colorAttribute) return;
+						colorAttribute.array.set(
+							colors.subarray(inputOffset * 3, (inputOffset + end - start) * 3),
+							start * 3,
+						);
+						markDirty(dirtyColorBatches.current, groupIndex, start, end);
+					},
+				);
 
-				// 标记受影响的批次为dirty
-				affectedBatches.forEach((batchIndex) => {
-					dirtyColorBatches.current.add(batchIndex);
+				// 高亮中的实例：新颜色记为原始颜色，再重新应用高亮
+				baseColors.current.forEach((base, id) => {
+					const offset = idToIndex(id) - startIndex;
+					if (offset < 0 || offset >= total) return;
+					base.fromArray(colors, offset * 3);
+					refreshHighlight(id);
 				});
 			},
 			setInstanceCount: (count: number) => {
-				currentInstanceCount.current = count;
-				let offset = 0;
-				for (let g = 0; g < meshGroups.current.length; g++) {
-					const group = meshGroups.current[g];
-					if (group) {
-						const groupCount = Math.min(count - offset, batchSizeRef.current);
-						group.count = Math.max(0, groupCount);
-						offset += batchSizeRef.current;
-					}
-				}
+				applyInstanceCount(count);
 			},
 			updateMatrices: () => {
 				processUpdatesAndClearDirtyBatches();
@@ -190,98 +1506,679 @@ export const InstancedMeshPool = forwardRef<
 				processUpdatesAndClearDirtyBatches();
 			},
 			computeBoundingBox: () => {
-				meshGroups.current.forEach((mesh) => {
-					mesh.boundingBox = null;
-					mesh.boundingSphere = null;
-					mesh.computeBoundingBox();
-					mesh.computeBoundingSphere();
+				meshGroups.current.forEach((_, batchIndex) => {
+					recomputeBounds(batchIndex);
+				});
+				pendingBoundsBatches.current.clear();
+				lastBoundsUpdate.current = performance.now() / 1000;
+			},
+			allocate: () => {
+				const index = currentInstanceCount.current;
+				const capacity = meshGroups.current.length * batchSizeRef.current;
+				if (index >= capacity) {
+					console.warn("InstancedMeshPool: no free instance slot left");
+					return -1;
+				}
+
+				const handle = nextHandle.current++;
+				handleToIndex.current.set(handle, index);
+				indexToHandle.current[index] = handle;
+				applyInstanceCount(index + 1);
+				setInstanceVisible(index, true);
+
+				// 重置槽位，避免显示之前残留的数据
+				api.setMatrixAt(index, tempMatrix.identity());
+				api.setColorAt(index, tempColor.setRGB(1, 1, 1));
+				for (const {
+					name,
+					itemSize,
+					defaultValue = 0,
+				} of instanceAttributesRef.current) {
+					const values = Array.isArray(defaultValue)
+						? defaultValue
+						: new Array<number>(itemSize).fill(defaultValue);
+					api.setAttributeAt(name, index, ...values);
+				}
+				return handle;
+			},
+			free: (handle: number) => {
+				const index = resolveHandle(handle);
+				if (index < 0) return;
+
+				// 把最后一个实例交换到被释放的位置，保持count紧凑
+				const lastIndex = currentInstanceCount.current - 1;
+				if (index !== lastIndex) {
+					copyInstance(lastIndex, index);
+					const movedHandle = indexToHandle.current[lastIndex];
+					if (movedHandle !== undefined && movedHandle >= 0) {
+						handleToIndex.current.set(movedHandle, index);
+					}
+					indexToHandle.current[index] = movedHandle ?? -1;
+				}
+
+				// 隐藏标记跟随被交换的实例
+				const hidden = hiddenInstances.current;
+				if (hidden[index] === 1) hiddenCount.current--;
+				hidden[index] = hidden[lastIndex] ?? 0;
+				hidden[lastIndex] = 0;
+
+				indexToHandle.current[lastIndex] = -1;
+				handleToIndex.current.delete(handle);
+				baseColors.current.delete(handle);
+				if (hoveredId.current === handle) {
+					hoveredId.current = null;
+				}
+				applyInstanceCount(lastIndex);
+			},
+			setMatrix: (handle: number, matrix: THREE.Matrix4) => {
+				const index = resolveHandle(handle);
+				if (index >= 0) api.setMatrixAt(index, matrix);
+			},
+			getMatrix: (handle: number, matrix: THREE.Matrix4) => {
+				const index = resolveHandle(handle);
+				return index >= 0 ? api.getMatrixAt(index, matrix) : matrix;
+			},
+			setColor: (handle: number, color: THREE.Color) => {
+				const index = resolveHandle(handle);
+				if (index >= 0) api.setColorAt(index, color);
+			},
+			getColor: (handle: number, color: THREE.Color) => {
+				const index = resolveHandle(handle);
+				return index >= 0 ? api.getColorAt(index, color) : color;
+			},
+			getIndexOfHandle: (handle: number) => resolveHandle(handle),
+			getHandleAt: (index: number) => indexToHandle.current[index] ?? -1,
+			setAttributeAt: (name: string, index: number, ...values: number[]) => {
+				const groupIndex = Math.floor(index / batchSizeRef.current);
+				const instanceIndex = index % batchSizeRef.current;
+				const attribute =
+					meshGroups.current[groupIndex]?.geometry.getAttribute(name);
+				if (attribute) {
+					const offset = instanceIndex * attribute.itemSize;
+					const length = Math.min(values.length, attribute.itemSize);
+					for (let c = 0; c < length; c++) {
+						attribute.array[offset + c] = values[c] ?? 0;
+					}
+					markAttributeDirty(name, groupIndex, instanceIndex);
+				}
+			},
+			getAttributeAt: (name: string, index: number, target: number[] = []) => {
+				const groupIndex = Math.floor(index / batchSizeRef.current);
+				const instanceIndex = index % batchSizeRef.current;
+				const attribute =
+					meshGroups.current[groupIndex]?.geometry.getAttribute(name);
+				if (attribute) {
+					const offset = instanceIndex * attribute.itemSize;
+					for (let c = 0; c < attribute.itemSize; c++) {
+						target[c] = attribute.array[offset + c] ?? 0;
+					}
+				}
+				return target;
+			},
+			setAttributes: (
+				name: string,
+				values: ArrayLike<number>,
+				startIndex = 0,
+			) => {
+				const config = instanceAttributesRef.current.find(
+					(attribute) => attribute.name === name,
+				);
+				if (!config) return;
+
+				const { itemSize } = config;
+				const total = Math.floor(values.length / itemSize);
+				for (let i = 0; i < total; i++) {
+					const index = startIndex + i;
+					const groupIndex = Math.floor(index / batchSizeRef.current);
+					const instanceIndex = index % batchSizeRef.current;
+					const attribute =
+						meshGroups.current[groupIndex]?.geometry.getAttribute(name);
+					if (attribute) {
+						for (let c = 0; c < itemSize; c++) {
+							attribute.array[instanceIndex * itemSize + c] =
+								values[i * itemSize + c] ?? 0;
+						}
+						markAttributeDirty(name, groupIndex, instanceIndex);
+					}
+				}
+			},
+			updateAttributes: () => {
+				processUpdatesAndClearDirtyBatches();
+			},
+			setTransformAt: (
+				index: number,
+				position: THREE.Vector3Like,
+				quaternion: THREE.QuaternionLike,
+				scale: THREE.Vector3Like = unitScale,
+			) => {
+				tempMatrix.compose(
+					tempPosition.copy(position),
+					tempQuaternion.copy(quaternion),
+					tempScale.copy(scale),
+				);
+				api.setMatrixAt(index, tempMatrix);
+			},
+			setPositionAt: (index: number, position: THREE.Vector3Like) => {
+				const groupIndex = Math.floor(index / batchSizeRef.current);
+				const instanceIndex = index % batchSizeRef.current;
+				const mesh = meshGroups.current[groupIndex];
+				if (mesh) {
+					// 只改写矩阵的平移部分，保留旋转和缩放
+					const array = mesh.instanceMatrix.array;
+					const offset = instanceIndex * 16;
+					array[offset + 12] = position.x;
+					array[offset + 13] = position.y;
+					array[offset + 14] = position.z;
+					markMatrixDirty(groupIndex, instanceIndex);
+				}
+			},
+			translateAt: (index: number, offset: THREE.Vector3Like) => {
+				const groupIndex = Math.floor(index / batchSizeRef.current);
+				const instanceIndex = index % batchSizeRef.current;
+				const mesh = meshGroups.current[groupIndex];
+				if (mesh) {
+					const array = mesh.instanceMatrix.array;
+					const base = instanceIndex * 16;
+					array[base + 12] = (array[base + 12] ?? 0) + offset.x;
+					array[base + 13] = (array[base + 13] ?? 0) + offset.y;
+					array[base + 14] = (array[base + 14] ?? 0) + offset.z;
+					markMatrixDirty(groupIndex, instanceIndex);
+				}
+			},
+			setPositions: (positions: ArrayLike<number>, startIndex = 0) => {
+				const total = Math.floor(positions.length / 3);
+				forEachBatchSegment(
+					startIndex,
+					total,
+					batchSizeRef.current,
+					(groupIndex, start, end, inputOffset) => {
+						const mesh = meshGroups.current[groupIndex];
+						if (!mesh) return;
+						const array = mesh.instanceMatrix.array;
+						for (let i = start; i < end; i++) {
+							const source = (inputOffset + i - start) * 3;
+							array[i * 16 + 12] = positions[source] ?? 0;
+							array[i * 16 + 13] = positions[source + 1] ?? 0;
+							array[i * 16 + 14] = positions[source + 2] ?? 0;
+						}
+						markMatrixDirty(groupIndex, start, end);
+					},
+				);
+			},
+			setTransforms: (
+				transforms: ArrayLike<number>,
+				stride = 10,
+				startIndex = 0,
+			) => {
+				if (stride < 10) {
+					console.warn("InstancedMeshPool: setTransforms stride must be >= 10");
+					return;
+				}
+				const total = Math.floor(transforms.length / stride);
+				forEachBatchSegment(
+					startIndex,
+					total,
+					batchSizeRef.current,
+					(groupIndex, start, end, inputOffset) => {
+						const mesh = meshGroups.current[groupIndex];
+						if (!mesh) return;
+						const array = mesh.instanceMatrix.array;
+						for (let i = start; i < end; i++) {
+							const source = (inputOffset + i - start) * stride;
+							tempPosition.fromArray(transforms, source);
+							tempQuaternion.fromArray(transforms, source + 3);
+							tempScale.fromArray(transforms, source + 7);
+							tempMatrix
+								.compose(tempPosition, tempQuaternion, tempScale)
+								.toArray(array, i * 16);
+						}
+						markMatrixDirty(groupIndex, start, end);
+					},
+				);
+			},
+			setGeometry: (geometry: THREE.BufferGeometry) => {
+				applyGeometry(geometry);
+			},
+			setMaterial: (material: THREE.Material) => {
+				applyMaterial(material);
+			},
+			getInstancesInRect: (rect: ScreenRect) => {
+				const left = Math.min(rect.x, rect.x + rect.width);
+				const right = Math.max(rect.x, rect.x + rect.width);
+				const top = Math.min(rect.y, rect.y + rect.height);
+				const bottom = Math.max(rect.y, rect.y + rect.height);
+				return collectInstancesOnScreen(
+					(x, y) => x >= left && x <= right && y >= top && y <= bottom,
+				);
+			},
+			getInstancesInLasso: (points: ScreenPoint[]) => {
+				if (points.length < 3) return [];
+				return collectInstancesOnScreen((x, y) => pointInPolygon(x, y, points));
+			},
+			setVisibleAt: (index: number, visible: boolean) => {
+				setInstanceVisible(index, visible);
+			},
+			setVisible: (indices: Iterable<number>, visible: boolean) => {
+				for (const index of indices) {
+					setInstanceVisible(index, visible);
+				}
+			},
+			isVisibleAt: (index: number) => hiddenInstances.current[index] !== 1,
+			exportState: () => {
+				const count = currentInstanceCount.current;
+				const state: InstancedMeshPoolState = {
+					version: 1,
+					count,
+					matrices: Array.from(
+						readInstanceData(count, 16, (mesh) => mesh.instanceMatrix.array),
+					),
+					attributes: {},
+					hidden: [],
+				};
+
+				if (meshGroups.current[0]?.instanceColor) {
+					const colors = readInstanceData(
+						count,
+						3,
+						(mesh) => mesh.instanceColor?.array,
+					);
+					// 高亮中的实例导出原始颜色
+					baseColors.current.forEach((base, id) => {
+						const index = idToIndex(id);
+						if (index >= 0 && index < count) base.toArray(colors, index * 3);
+					});
+					state.colors = Array.from(colors);
+				}
+
+				for (const { name, itemSize } of instanceAttributesRef.current) {
+					const values = readInstanceData(
+						count,
+						itemSize,
+						(mesh) => mesh.geometry.getAttribute(name)?.array,
+					);
+					state.attributes[name] = { itemSize, values: Array.from(values) };
+				}
+
+				for (let i = 0; i < count; i++) {
+					if (hiddenInstances.current[i] === 1) state.hidden.push(i);
+				}
+
+				if (handleToIndex.current.size > 0) {
+					state.handles = Array.from(
+						{ length: count },
+						(_, i) => indexToHandle.current[i] ?? -1,
+					);
+				}
+				return state;
+			},
+			importState: (state: InstancedMeshPoolState) => {
+				const { count } = state;
+				api.reserve(count);
+
+				// 清除高亮状态，导入后按当前选择重新应用
+				baseColors.current.clear();
+				hoveredId.current = null;
+
+				applyInstanceCount(count);
+				api.setMatrixArray(Float32Array.from(state.matrices), 0);
+				if (state.colors) {
+					api.setColorArray(Float32Array.from(state.colors), 0);
+				}
+				for (const [name, { values }] of Object.entries(state.attributes)) {
+					api.setAttributes(name, values, 0);
+				}
+
+				const hidden = hiddenInstances.current;
+				for (let i = 0; i < hidden.length; i++) {
+					if (hidden[i] === 1) setInstanceVisible(i, true);
+				}
+				for (const index of state.hidden) {
+					setInstanceVisible(index, false);
+				}
+
+				handleToIndex.current.clear();
+				indexToHandle.current = [];
+				state.handles?.forEach((handle, index) => {
+					indexToHandle.current[index] = handle;
+					if (handle >= 0) {
+						handleToIndex.current.set(handle, index);
+						nextHandle.current = Math.max(nextHandle.current, handle + 1);
+					}
+				});
+
+				for (const id of selectedIds.current) {
+					refreshHighlight(id);
+				}
+			},
+			getStats: () => {
+				const batches = meshGroups.current.map((mesh, g) => {
+					const targets = renderGroups.current[g];
+					return {
+						count: mesh.count,
+						drawnCount: targets
+							? targets.reduce((sum, target) => sum + target.count, 0)
+							: mesh.count,
+						boundingBox: mesh.boundingBox?.clone() ?? null,
+					};
 				});
+				return {
+					...lastFrameStats.current,
+					instanceCount: currentInstanceCount.current,
+					capacity: meshGroups.current.length * batchSizeRef.current,
+					batchSize: batchSizeRef.current,
+					batchCount: meshGroups.current.length,
+					hiddenCount: hiddenCount.current,
+					batches,
+				};
+			},
+			exportBinary: () => encodePoolState(api.exportState()),
+			importBinary: (buffer: ArrayBuffer) => {
+				api.importState(decodePoolState(buffer));
+			},
+			reserve: (n: number) => {
+				if (n <= reservedInstances.current) return;
+				reservedInstances.current = n;
+				const capacity = Math.max(maxInstances, n);
+				if (resizeBatches(batchSizeRef.current, capacity)) {
+					forceLayout();
+				}
+			},
+		};
+		return api;
+	}, [
+		maxInstances,
+		resizeBatches,
+		readInstanceData,
+		recomputeBounds,
+		setInstanceVisible,
+		applyGeometry,
+		applyMaterial,
+		processUpdatesAndClearDirtyBatches,
+		applyInstanceCount,
+		copyInstance,
+		resolveHandle,
+		markMatrixDirty,
+		markAttributeDirty,
+		indexToId,
+		idToIndex,
+		refreshHighlight,
+		collectInstancesOnScreen,
+	]);
+
+	useImperativeHandle(ref, () => poolApi, [poolApi]);
+
+	// context保持稳定，子组件总是通过getPool拿到最新的API
+	const poolApiRef = useRef(poolApi);
+	poolApiRef.current = poolApi;
+	const contextValue = useMemo<InstancedMeshPoolContextValue>(
+		() => ({
+			getPool: () => poolApiRef.current,
+			setInstanceEvents: (handle, events) => {
+				if (events) {
+					instanceEvents.current.set(handle, events);
+				} else {
+					instanceEvents.current.delete(handle);
+				}
 			},
 		}),
-		[processUpdatesAndClearDirtyBatches],
+		[],
 	);
 
-	// 更新 batchSizeRef
-	batchSizeRef.current = batchSize;
-
-	const neededGroups = Math.ceil(maxInstances / batchSize);
+	instanceAttributesRef.current = instanceAttributes;
 
-	// 确保 meshGroups 数组有足够的 InstancedMesh 实例
-	while (meshGroups.current.length < neededGroups) {
-		const mesh = new THREE.InstancedMesh(geometry, material, batchSize);
-		mesh.frustumCulled = frustumCulled;
+	// geometry/material属性变化时同步到已有批次
+	if (geometryProp.current !== geometry) {
+		geometryProp.current = geometry;
+		applyGeometry(geometry);
+	}
+	if (materialProp.current !== material) {
+		materialProp.current = material;
+		applyMaterial(material);
+	}
 
-		// 关键修复：禁用自动边界框计算，因为我们会手动更新
-		mesh.boundingBox = null;
-		mesh.boundingSphere = null;
+	// 按容量（maxInstances与reserve的较大者）和batchSize调整批次，保留已有数据
+	resizeBatches(batchSize, Math.max(maxInstances, reservedInstances.current));
+	const neededGroups = meshGroups.current.length;
 
-		// 初始化所有实例的矩阵到远距离位置
-		const tempMatrix = new THREE.Matrix4();
-		for (let i = 0; i < batchSize; i++) {
-			tempMatrix.makeTranslation(0, FarDistance + i, 0);
-			mesh.setMatrixAt(i, tempMatrix);
+	// 渲染可能被丢弃或重复执行（StrictMode、并发渲染），已提交的树仍可能在使用被替换的网格，
+	// 所以只在提交后释放它们
+	useLayoutEffect(() => {
+		for (const mesh of retiredMeshes.current.splice(0)) {
+			disposeBatchMesh(mesh);
 		}
-		mesh.instanceMatrix.needsUpdate = true;
+	});
 
-		if (enableColors) {
-			const colorArray = new Float32Array(batchSize * 3);
-			mesh.instanceColor = new THREE.InstancedBufferAttribute(colorArray, 3);
-		}
+	// 卸载时释放GPU资源；网格对象保留，再次挂载（如StrictMode）时会重新上传
+	useEffect(() => {
+		return () => {
+			for (const mesh of meshGroups.current) releaseBatchMesh(mesh);
+			for (const targets of renderGroups.current) {
+				for (const mesh of targets) releaseBatchMesh(mesh);
+			}
+		};
+	}, []);
 
-		mesh.count = 0;
-		meshGroups.current.push(mesh);
+	// LOD层级变化时重建所有渲染网格
+	const sortedLods = [...lods].sort((a, b) => a.distance - b.distance);
+	if (!sameLodLevels(builtLods.current, sortedLods)) {
+		clearRenderGroups();
+		builtLods.current = sortedLods;
+		lodDistances.current = [0, ...sortedLods.map((lod) => lod.distance)];
 	}
 
-	// 清理多余组
-	while (meshGroups.current.length > neededGroups) {
-		const toRemove = meshGroups.current.pop();
-		toRemove?.parent?.remove(toRemove);
+	// 逐实例剔除、LOD或隐藏过实例时为每个批次准备渲染网格；剔除已在CPU完成，不再做批次级剔除
+	const hasRenderGroups =
+		instanceCulling || sortedLods.length > 0 || usesVisibility.current;
+	const renderTargetGroups = hasRenderGroups ? neededGroups : 0;
+	while (renderGroups.current.length < renderTargetGroups) {
+		const groupIndex = renderGroups.current.length;
+		const levels = [
+			{ geometry: geometryRef.current, material: materialRef.current },
+			...sortedLods.map((lod) => ({
+				geometry: lod.geometry,
+				material: lod.material ?? materialRef.current,
+			})),
+		];
+		const targets = levels.map((level) => {
+			const mesh = createBatchMesh(
+				level.geometry,
+				level.material,
+				instanceAttributes,
+				batchSize,
+				enableColors,
+			);
+			mesh.frustumCulled = false;
+			onBatchCreated?.(mesh, groupIndex);
+			return mesh;
+		});
+		staleRenderBatches.current.add(groupIndex);
+		renderGroups.current.push(targets);
+		renderMaps.current.push(levels.map(() => new Int32Array(batchSize)));
+		renderSlots.current.push(levels.map(() => new Int32Array(batchSize)));
+		lodLevels.current.push(new Uint8Array(batchSize));
 	}
+	while (renderGroups.current.length > renderTargetGroups) {
+		const targets = renderGroups.current.pop();
+		retiredMeshes.current.push(...(targets ?? []));
+		renderMaps.current.pop();
+		renderSlots.current.pop();
+		lodLevels.current.pop();
+	}
+
+	// 从渲染网格切换回直接绘制批次时，批次缓冲在此期间没有上传过，需要整体上传
+	useLayoutEffect(() => {
+		if (drawsRenderGroups.current && !hasRenderGroups) {
+			for (const mesh of meshGroups.current) {
+				invalidateBatchBuffers(mesh, instanceAttributesRef.current);
+			}
+		}
+		drawsRenderGroups.current = hasRenderGroups;
+	}, [hasRenderGroups]);
+
+	// 把阴影、渲染顺序、图层和射线检测同步到所有批次（或渲染网格），包括扩容后新建的。
+	// 自定义raycast优先，其次是空间索引
+	const applyMeshProps = (
+		mesh: THREE.InstancedMesh,
+		groupIndex: number,
+		level: number,
+	) => {
+		mesh.castShadow = castShadow;
+		mesh.receiveShadow = receiveShadow;
+		mesh.renderOrder = renderOrder;
+		// 与R3F一致：数字表示只启用该图层，未设置时恢复默认的图层0
+		if (layers === undefined) {
+			mesh.layers.set(0);
+		} else if (typeof layers === "number") {
+			mesh.layers.set(layers);
+		} else {
+			mesh.layers.mask = layers.mask;
+		}
+
+		if (raycast) {
+			mesh.raycast = raycast;
+		} else if (spatialIndex) {
+			mesh.raycast = (raycaster, intersects) =>
+				raycastWithIndex(mesh, groupIndex, level, raycaster, intersects);
+		} else {
+			mesh.raycast = THREE.InstancedMesh.prototype.raycast;
+		}
+	};
+	meshGroups.current.forEach((mesh, groupIndex) => {
+		applyMeshProps(mesh, groupIndex, -1);
+	});
+	renderGroups.current.forEach((targets, groupIndex) => {
+		targets.forEach((mesh, level) => {
+			applyMeshProps(mesh, groupIndex, level);
+		});
+	});
+
+	// 事件回调报告稳定句柄；未通过allocate分配的实例报告紧凑索引。
+	// instanceMap用于把剔除后渲染网格中的实例映射回批次内的原始实例
+	const toEventIndex = useCallback(
+		(offset: number, instanceId: number, instanceMap?: Int32Array) => {
+			return indexToId(offset + (instanceMap?.[instanceId] ?? instanceId));
+		},
+		[indexToId],
+	);
+
+	// 同步selection属性，并在高亮颜色变化时重新应用
+	useEffect(() => {
+		const previous = selectedIds.current;
+		const next = new Set(selection ?? []);
+		selectedIds.current = next;
+		for (const id of previous) {
+			if (!next.has(id)) refreshHighlight(id);
+		}
+		for (const id of next) {
+			refreshHighlight(id);
+		}
+		if (hoveredId.current !== null) {
+			refreshHighlight(hoveredId.current);
+		}
+	}, [selection, refreshHighlight]);
 
 	// 缓存事件处理函数避免重新创建
 	const handleClick = useCallback(
-		(offset: number) => {
+		(offset: number, instanceMap?: Int32Array) => {
 			return (e: ThreeEvent<THREE.Event>) => {
-				if (e.instanceId !== undefined && onClick) {
-					const index = offset + e.instanceId;
-					onClick(e, index);
-				}
+				if (e.instanceId === undefined) return;
+				const index = toEventIndex(offset, e.instanceId, instanceMap);
+				instanceEvents.current.get(index)?.onClick?.(e);
+				onClick?.(e, index);
 			};
 		},
-		[onClick],
+		[onClick, toEventIndex],
 	);
 
 	const handlePointerOver = useCallback(
-		(offset: number) => {
+		(offset: number, instanceMap?: Int32Array) => {
 			return (e: ThreeEvent<THREE.Event>) => {
-				if (e.instanceId !== undefined && onPointerOver) {
-					const index = offset + e.instanceId;
-					onPointerOver(e, index);
+				if (e.instanceId === undefined) return;
+				const index = toEventIndex(offset, e.instanceId, instanceMap);
+				if (hoverColor !== undefined) {
+					const previous = hoveredId.current;
+					hoveredId.current = index;
+					if (previous !== null && previous !== index) {
+						refreshHighlight(previous);
+					}
+					refreshHighlight(index);
 				}
+				instanceEvents.current.get(index)?.onPointerOver?.(e);
+				onPointerOver?.(e, index);
 			};
 		},
-		[onPointerOver],
+		[onPointerOver, toEventIndex, hoverColor, refreshHighlight],
 	);
 
 	const handlePointerOut = useCallback(
-		(offset: number) => {
+		(offset: number, instanceMap?: Int32Array) => {
 			return (e: ThreeEvent<THREE.Event>) => {
-				if (e.instanceId !== undefined && onPointerOut) {
-					const index = offset + e.instanceId;
-					onPointerOut(e, index);
+				if (e.instanceId === undefined) return;
+				const index = toEventIndex(offset, e.instanceId, instanceMap);
+				if (hoveredId.current === index) {
+					hoveredId.current = null;
+					refreshHighlight(index);
 				}
+				instanceEvents.current.get(index)?.onPointerOut?.(e);
+				onPointerOut?.(e, index);
 			};
 		},
-		[onPointerOut],
+		[onPointerOut, toEventIndex, refreshHighlight],
 	);
 
 	// 使用useFrame自动处理dirty batches，避免大数据量时卡死
-	useFrame(() => {
+	useFrame((state) => {
+		// 先应用worker已提交的帧，再统一上传
+		workerBridge?.consume(poolApi);
 		processUpdatesAndClearDirtyBatches();
+		if (hasRenderGroups) {
+			// 剔除和LOD依赖相机，每帧都要更新；只有隐藏时仅在数据变化后重新压缩
+			const staleBatches = staleRenderBatches.current;
+			if (instanceCulling || builtLods.current.length > 0) {
+				updateRenderGroups(state.camera);
+			} else if (staleBatches.size > 0) {
+				updateRenderGroups(state.camera, staleBatches);
+			}
+		}
+		staleRenderBatches.current.clear();
+
+		// 所有实例重新可见后回到直接绘制批次
+		if (usesVisibility.current && hiddenCount.current === 0) {
+			usesVisibility.current = false;
+			forceLayout();
+		}
+
+		// 本帧的统计供getStats读取，下一帧重新累计
+		lastFrameStats.current = frameStats.current;
+		frameStats.current = createFrameStats();
 	});
 
+	if (hasRenderGroups) {
+		return (
+			<InstancedMeshPoolContext.Provider value={contextValue}>
+				{renderGroups.current.map((targets, groupIndex) => {
+					const offset = groupIndex * batchSize;
+					return targets.map((mesh, level) => {
+						const instanceMap = renderMaps.current[groupIndex]?.[level];
+						return (
+							// biome-ignore lint/a11y/noStaticElementInteractions: <keep it>
+							<primitive
+								key={mesh.uuid}
+								object={mesh}
+								onClick={handleClick(offset, instanceMap)}
+								onPointerOver={handlePointerOver(offset, instanceMap)}
+								onPointerOut={handlePointerOut(offset, instanceMap)}
+							/>
+						);
+					});
+				})}
+				{children}
+			</InstancedMeshPoolContext.Provider>
+		);
+	}
+
 	return (
-		<>
+		<InstancedMeshPoolContext.Provider value={contextValue}>
 			{meshGroups.current.map((mesh, groupIndex) => {
 				const offset = groupIndex * batchSize;
 				return (
@@ -295,6 +2192,7 @@ export const InstancedMeshPool = forwardRef<
 					/>
 				);
 			})}
-		</>
+			{children}
+		</InstancedMeshPoolContext.Provider>
 	);
 });
@@ -0,0 +1,90 @@
+import { useFrame } from "@react-three/fiber";
+import { useContext, useEffect, useRef } from "react";
+import * as THREE from "three";
+import {
+	InstancedMeshPoolContext,
+	type InstancedMeshPoolStats,
+} from "./InstanceMeshPool";
+
+export type InstancedMeshPoolDebugProps = {
+	showBounds?: boolean;
+	color?: THREE.ColorRepresentation;
+	interval?: number;
+	onStats?: (stats: InstancedMeshPoolStats) => void;
+};
+
+// 池的调试辅助：绘制每个批次的包围盒，并按interval（秒）回调统计数据。
+// 需要作为InstancedMeshPool的子元素渲染，与批次网格处在同一坐标系
+export function InstancedMeshPoolDebug({
+	showBounds = true,
+	color = "yellow",
+	interval = 0.5,
+	onStats,
+}: InstancedMeshPoolDebugProps) {
+	const context = useContext(InstancedMeshPoolContext);
+	if (!context) {
+		throw new Error(
+			"InstancedMeshPoolDebug must be rendered inside InstancedMeshPool",
+		);
+	}
+
+	const groupRef = useRef<THREE.Group>(null);
+	const helpers = useRef<THREE.Box3Helper[]>([]);
+	const elapsed = useRef(0);
+
+	// 颜色变化时更新已有的辅助线
+	useEffect(() => {
+		for (const helper of helpers.current) {
+			(helper.material as THREE.LineBasicMaterial).color.set(color);
+		}
+	}, [color]);
+
+	// 卸载时释放辅助线
+	useEffect(() => {
+		return () => {
+			for (const helper of helpers.current) {
+				helper.geometry.dispose();
+				(helper.material as THREE.Material).dispose();
+			}
+			helpers.current = [];
+		};
+	}, []);
+
+	useFrame((_, delta) => {
+		const group = groupRef.current;
+		const pool = context.getPool();
+		const stats = pool.getStats();
+
+		if (group) {
+			// 批次数量变化时增减辅助线
+			while (helpers.current.length < stats.batches.length) {
+				const helper = new THREE.Box3Helper(new THREE.Box3(), color);
+				helpers.current.push(helper);
+				group.add(helper);
+			}
+			while (helpers.current.length > stats.batches.length) {
+				const helper = helpers.current.pop();
+				if (helper) {
+					group.remove(helper);
+					helper.geometry.dispose();
+					(helper.material as THREE.Material).dispose();
+				}
+			}
+
+			stats.batches.forEach(({ count, boundingBox }, i) => {
+				const helper = helpers.current[i];
+				if (!helper) return;
+				helper.visible = showBounds && count > 0 && !!boundingBox;
+				if (boundingBox) helper.box.copy(boundingBox);
+			});
+		}
+
+		elapsed.current += delta;
+		if (onStats && elapsed.current >= interval) {
+			elapsed.current = 0;
+			onStats(stats);
+		}
+	});
+
+	return <group ref={groupRef} />;
+}
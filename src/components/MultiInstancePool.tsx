@@ -0,0 +1,221 @@
+import type { ThreeEvent } from "@react-three/fiber";
+import { forwardRef, useCallback, useImperativeHandle, useRef } from "react";
+import * as THREE from "three";
+import {
+	type BoundsUpdateStrategy,
+	InstancedMeshPool,
+	type InstancedMeshPoolRef,
+} from "./InstanceMeshPool";
+
+const tempMatrix = new THREE.Matrix4();
+const tempColor = new THREE.Color();
+
+export interface InstanceKind {
+	geometry: THREE.BufferGeometry;
+	material: THREE.Material;
+}
+
+export interface MultiInstancePoolRef {
+	add: (kind: string, matrix?: THREE.Matrix4, color?: THREE.Color) => number;
+	remove: (id: number) => void;
+	setKind: (id: number, kind: string) => void;
+	getKind: (id: number) => string | undefined;
+	setMatrix: (id: number, matrix: THREE.Matrix4) => void;
+	getMatrix: (id: number, matrix: THREE.Matrix4) => THREE.Matrix4;
+	setColor: (id: number, color: THREE.Color) => void;
+	getColor: (id: number, color: THREE.Color) => THREE.Color;
+	getPool: (kind: string) => InstancedMeshPoolRef | undefined;
+}
+
+export type MultiInstancePoolProps = {
+	kinds: Record<string, InstanceKind>;
+	batchSize?: number;
+	maxInstances?: number | Record<string, number>;
+	enableColors?: boolean;
+	frustumCulled?: boolean;
+	instanceCulling?: boolean;
+	maxDrawDistance?: number;
+	boundsUpdateStrategy?: BoundsUpdateStrategy;
+	onClick?: (e: ThreeEvent<THREE.Event>, id: number, kind: string) => void;
+	onPointerOver?: (
+		e: ThreeEvent<THREE.Event>,
+		id: number,
+		kind: string,
+	) => void;
+	onPointerOut?: (e: ThreeEvent<THREE.Event>, id: number, kind: string) => void;
+};
+
+// 未指定容量的类型使用的默认容量，与maxInstances为数字时的默认值一致
+const DefaultMaxInstances = 1000;
+
+// 实例在某个类型池中的位置
+interface InstanceEntry {
+	kind: string;
+	handle: number;
+}
+
+export const MultiInstancePool = forwardRef<
+	MultiInstancePoolRef,
+	MultiInstancePoolProps
+>(function MultiInstancePool(
+	{
+		kinds,
+		batchSize = 1000,
+		maxInstances = DefaultMaxInstances,
+		enableColors = false,
+		frustumCulled = false,
+		instanceCulling = false,
+		maxDrawDistance,
+		boundsUpdateStrategy,
+		onClick,
+		onPointerOver,
+		onPointerOut,
+	}: MultiInstancePoolProps,
+	ref,
+) {
+	// 每个类型一个批处理池
+	const pools = useRef<Map<string, InstancedMeshPoolRef>>(new Map());
+
+	// id -> 类型和句柄，以及 类型 -> 句柄 -> id 的反向映射（用于事件）
+	const entries = useRef<Map<number, InstanceEntry>>(new Map());
+	const handleToId = useRef<Map<string, Map<number, number>>>(new Map());
+	const nextId = useRef(0);
+
+	const bindHandle = useCallback((kind: string, handle: number, id: number) => {
+		let handles = handleToId.current.get(kind);
+		if (!handles) {
+			handles = new Map();
+			handleToId.current.set(kind, handles);
+		}
+		handles.set(handle, id);
+		entries.current.set(id, { kind, handle });
+	}, []);
+
+	const unbindHandle = useCallback((id: number) => {
+		const entry = entries.current.get(id);
+		if (!entry) return undefined;
+		handleToId.current.get(entry.kind)?.delete(entry.handle);
+		entries.current.delete(id);
+		return entry;
+	}, []);
+
+	useImperativeHandle(ref, () => {
+		const api: MultiInstancePoolRef = {
+			add: (kind: string, matrix?: THREE.Matrix4, color?: THREE.Color) => {
+				const pool = pools.current.get(kind);
+				if (!pool) {
+					console.warn(`MultiInstancePool: unknown kind "${kind}"`);
+					return -1;
+				}
+
+				const handle = pool.allocate();
+				if (handle < 0) return -1;
+
+				const id = nextId.current++;
+				bindHandle(kind, handle, id);
+				if (matrix) pool.setMatrix(handle, matrix);
+				if (color) pool.setColor(handle, color);
+				return id;
+			},
+			remove: (id: number) => {
+				const entry = unbindHandle(id);
+				if (entry) {
+					pools.current.get(entry.kind)?.free(entry.handle);
+				}
+			},
+			setKind: (id: number, kind: string) => {
+				const entry = entries.current.get(id);
+				const target = pools.current.get(kind);
+				if (!entry || !target || entry.kind === kind) return;
+
+				const handle = target.allocate();
+				if (handle < 0) return;
+
+				// 把矩阵和颜色搬到新类型的池中，id保持不变
+				const source = pools.current.get(entry.kind);
+				if (source) {
+					target.setMatrix(handle, source.getMatrix(entry.handle, tempMatrix));
+					target.setColor(handle, source.getColor(entry.handle, tempColor));
+					source.free(entry.handle);
+				}
+				unbindHandle(id);
+				bindHandle(kind, handle, id);
+			},
+			getKind: (id: number) => entries.current.get(id)?.kind,
+			setMatrix: (id: number, matrix: THREE.Matrix4) => {
+				const entry = entries.current.get(id);
+				if (entry) {
+					pools.current.get(entry.kind)?.setMatrix(entry.handle, matrix);
+				}
+			},
+			getMatrix: (id: number, matrix: THREE.Matrix4) => {
+				const entry = entries.current.get(id);
+				const pool = entry && pools.current.get(entry.kind);
+				return entry && pool ? pool.getMatrix(entry.handle, matrix) : matrix;
+			},
+			setColor: (id: number, color: THREE.Color) => {
+				const entry = entries.current.get(id);
+				if (entry) {
+					pools.current.get(entry.kind)?.setColor(entry.handle, color);
+				}
+			},
+			getColor: (id: number, color: THREE.Color) => {
+				const entry = entries.current.get(id);
+				const pool = entry && pools.current.get(entry.kind);
+				return entry && pool ? pool.getColor(entry.handle, color) : color;
+			},
+			getPool: (kind: string) => pools.current.get(kind),
+		};
+		return api;
+	}, [bindHandle, unbindHandle]);
+
+	// 把池报告的句柄转换为id后再回调
+	const forwardEvent = useCallback(
+		(
+			kind: string,
+			callback?: (e: ThreeEvent<THREE.Event>, id: number, kind: string) => void,
+		) => {
+			if (!callback) return undefined;
+			return (e: ThreeEvent<THREE.Event>, handle: number) => {
+				const id = handleToId.current.get(kind)?.get(handle);
+				if (id !== undefined) {
+					callback(e, id, kind);
+				}
+			};
+		},
+		[],
+	);
+
+	return (
+		<>
+			{Object.entries(kinds).map(([kind, { geometry, material }]) => (
+				<InstancedMeshPool
+					key={kind}
+					ref={(pool) => {
+						if (pool) {
+							pools.current.set(kind, pool);
+						} else {
+							pools.current.delete(kind);
+						}
+					}}
+					geometry={geometry}
+					material={material}
+					batchSize={batchSize}
+					maxInstances={
+						typeof maxInstances === "number"
+							? maxInstances
+							: (maxInstances[kind] ?? DefaultMaxInstances)
+					}
+					enableColors={enableColors}
+					frustumCulled={frustumCulled}
+					instanceCulling={instanceCulling}
+					maxDrawDistance={maxDrawDistance}
+					boundsUpdateStrategy={boundsUpdateStrategy}
+					onClick={forwardEvent(kind, onClick)}
+					onPointerOver={forwardEvent(kind, onPointerOver)}
+					onPointerOut={forwardEvent(kind, onPointerOut)}
+				/>
+			))}
+		</>
+	);
+});
@@ -0,0 +1,113 @@
+import type { ThreeEvent } from "@react-three/fiber";
+import { useContext, useLayoutEffect, useRef } from "react";
+import * as THREE from "three";
+import {
+	InstancedMeshPoolContext,
+	type PoolInstanceEvents,
+} from "./InstanceMeshPool";
+
+const tempPosition = new THREE.Vector3();
+const tempQuaternion = new THREE.Quaternion();
+const tempScale = new THREE.Vector3();
+const tempEuler = new THREE.Euler();
+const tempMatrix = new THREE.Matrix4();
+const tempColor = new THREE.Color();
+
+export type PoolInstanceProps = {
+	position?: THREE.Vector3 | THREE.Vector3Tuple;
+	rotation?: THREE.Euler | THREE.Vector3Tuple;
+	quaternion?: THREE.Quaternion;
+	scale?: number | THREE.Vector3 | THREE.Vector3Tuple;
+	color?: THREE.ColorRepresentation;
+	onClick?: (e: ThreeEvent<THREE.Event>) => void;
+	onPointerOver?: (e: ThreeEvent<THREE.Event>) => void;
+	onPointerOut?: (e: ThreeEvent<THREE.Event>) => void;
+};
+
+// 声明式的池实例：挂载时分配槽位，属性变化时写入变换，卸载时释放槽位
+export function PoolInstance({
+	position,
+	rotation,
+	quaternion,
+	scale,
+	color,
+	onClick,
+	onPointerOver,
+	onPointerOut,
+}: PoolInstanceProps) {
+	const context = useContext(InstancedMeshPoolContext);
+	if (!context) {
+		throw new Error("PoolInstance must be rendered inside InstancedMeshPool");
+	}
+
+	const handleRef = useRef(-1);
+
+	// 事件对象保持稳定，每次渲染更新其中的回调
+	const events = useRef<PoolInstanceEvents>({}).current;
+	events.onClick = onClick;
+	events.onPointerOver = onPointerOver;
+	events.onPointerOut = onPointerOut;
+	const hasEvents = !!(onClick || onPointerOver || onPointerOut);
+
+	// 挂载时分配槽位，卸载时释放
+	useLayoutEffect(() => {
+		const handle = context.getPool().allocate();
+		handleRef.current = handle;
+		return () => {
+			context.setInstanceEvents(handle, null);
+			if (handle >= 0) {
+				context.getPool().free(handle);
+			}
+			handleRef.current = -1;
+		};
+	}, [context]);
+
+	useLayoutEffect(() => {
+		const handle = handleRef.current;
+		if (handle < 0 || !hasEvents) return;
+		context.setInstanceEvents(handle, events);
+		return () => context.setInstanceEvents(handle, null);
+	}, [context, events, hasEvents]);
+
+	// 写入变换
+	useLayoutEffect(() => {
+		const handle = handleRef.current;
+		if (handle < 0) return;
+
+		if (Array.isArray(position)) {
+			tempPosition.fromArray(position);
+		} else {
+			tempPosition.copy(position ?? tempPosition.set(0, 0, 0));
+		}
+
+		if (quaternion) {
+			tempQuaternion.copy(quaternion);
+		} else if (Array.isArray(rotation)) {
+			tempQuaternion.setFromEuler(tempEuler.fromArray(rotation));
+		} else if (rotation) {
+			tempQuaternion.setFromEuler(rotation);
+		} else {
+			tempQuaternion.identity();
+		}
+
+		if (typeof scale === "number") {
+			tempScale.setScalar(scale);
+		} else if (Array.isArray(scale)) {
+			tempScale.fromArray(scale);
+		} else {
+			tempScale.copy(scale ?? tempScale.set(1, 1, 1));
+		}
+
+		tempMatrix.compose(tempPosition, tempQuaternion, tempScale);
+		context.getPool().setMatrix(handle, tempMatrix);
+	}, [context, position, rotation, quaternion, scale]);
+
+	// 写入颜色
+	useLayoutEffect(() => {
+		const handle = handleRef.current;
+		if (handle < 0 || color === undefined) return;
+		context.getPool().setColor(handle, tempColor.set(color));
+	}, [context, color]);
+
+	return null;
+}
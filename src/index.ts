@@ -1,16 +1,75 @@
-export type { InstancedMeshPoolProps } from "./components/InstanceMeshPool";
+export type {
+	BoundsUpdateStrategy,
+	InstanceAttributeConfig,
+	InstanceLodLevel,
+	InstancedMeshPoolBatchStats,
+	InstancedMeshPoolProps,
+	InstancedMeshPoolStats,
+	ScreenPoint,
+	ScreenRect,
+} from "./components/InstanceMeshPool";
 export {
 	InstancedMeshPool,
 	type InstancedMeshPoolRef,
 } from "./components/InstanceMeshPool";
+export {
+	decodePoolState,
+	encodePoolState,
+	type InstancedMeshPoolState,
+} from "./utils/poolState";
+
+export {
+	InstancedMeshPoolDebug,
+	type InstancedMeshPoolDebugProps,
+} from "./components/InstancedMeshPoolDebug";
+
+export {
+	PoolInstance,
+	type PoolInstanceProps,
+} from "./components/PoolInstance";
 
-export type { ConveyorBeltProps } from "./components/ConveyorBelt";
+export {
+	type InstanceKind,
+	MultiInstancePool,
+	type MultiInstancePoolProps,
+	type MultiInstancePoolRef,
+} from "./components/MultiInstancePool";
+
+export type {
+	ConveyorAccumulationZone,
+	ConveyorBeltProps,
+} from "./components/ConveyorBelt";
 export {
 	ConveyorBelt,
 	type ConveyorBeltRef,
+	type ConveyorItem,
 } from "./components/ConveyorBelt";
+export {
+	type ConveyorBeltPorts,
+	ConveyorNetwork,
+	type ConveyorNetworkProps,
+	type ConveyorNetworkRef,
+	type ConveyorRouteItem,
+} from "./components/ConveyorNetwork";
 
 export { type AnimationPoint, createAnimator } from "./utils/gsapAnimator";
+export {
+	createInstanceAnimator,
+	type InstanceAnimationConfig,
+	InstanceAnimator,
+	type InstanceAnimatorTarget,
+	type InstanceSelection,
+} from "./utils/instanceAnimator";
+export {
+	connectInstanceWorker,
+	InstanceWorkerBridge,
+	type InstanceWorkerBridgeOptions,
+	type InstanceWorkerMessage,
+	type InstanceWorkerPort,
+	type InstanceWorkerSink,
+	type InstanceWorkerTarget,
+	InstanceWorkerWriter,
+} from "./utils/instanceWorker";
 export {
 	createPathAnimator,
 	type MoveAlongPathConfig,
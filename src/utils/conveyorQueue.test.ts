@@ -0,0 +1,193 @@
+import {
+	advanceQueue,
+	type ConveyorQueueItem,
+	type ConveyorQueueOptions,
+	findZone,
+	hasRoomAt,
+	insertQueueItem,
+	isQueueFull,
+} from "./conveyorQueue";
+
+// Boxes 0.2 long centred on their origin, on a 10 m belt
+const options: ConveyorQueueOptions = {
+	length: 10,
+	minGap: 0.1,
+	extentOf: () => ({ front: 0.1, back: 0.1 }),
+};
+
+function createQueue(...offsets: number[]) {
+	const queue: ConveyorQueueItem[] = [];
+	offsets.forEach((offset, id) => {
+		insertQueueItem(queue, {
+			id,
+			kind: "box",
+			offset,
+			queued: false,
+			arrived: false,
+		});
+	});
+	return queue;
+}
+
+// Moves the queue and drops departed items, like ConveyorBelt does each frame
+function step(
+	queue: ConveyorQueueItem[],
+	advance: Partial<Parameters<typeof advanceQueue>[1]> = {},
+) {
+	const result = advanceQueue(queue, {
+		...options,
+		direction: 1,
+		distance: 0.5,
+		...advance,
+	});
+	for (const id of result.departed) {
+		queue.splice(
+			queue.findIndex((item) => item.id === id),
+			1,
+		);
+	}
+	return result;
+}
+
+const offsets = (queue: ConveyorQueueItem[]) =>
+	queue.map(({ offset }) => Number(offset.toFixed(6)));
+
+describe("conveyor queue", () => {
+	it("keeps the queue sorted front first", () => {
+		const queue = createQueue(2, 5, 1, 8);
+		expect(offsets(queue)).toEqual([8, 5, 2, 1]);
+	});
+
+	it("checks room against the extents and the minimum gap", () => {
+		const queue = createQueue(5);
+		// 0.1 + 0.1 + 0.1 between origins is exactly enough
+		expect(hasRoomAt(queue, "box", 4.7, options)).toBe(true);
+		expect(hasRoomAt(queue, "box", 5.3, options)).toBe(true);
+		expect(hasRoomAt(queue, "box", 4.75, options)).toBe(false);
+		expect(hasRoomAt(queue, "box", 5.2, options)).toBe(false);
+		expect(hasRoomAt([], "box", 0, options)).toBe(true);
+	});
+
+	it("moves free items by the full distance", () => {
+		const queue = createQueue(1, 3);
+		const { moved } = step(queue);
+		expect(offsets(queue)).toEqual([3.5, 1.5]);
+		expect(moved).toHaveLength(2);
+		expect(queue.every((item) => !item.queued)).toBe(true);
+	});
+
+	it("keeps the minimum gap behind the item ahead", () => {
+		const queue = createQueue(2, 1.5);
+		step(queue, { zones: [{ start: 1, end: 2.1, hold: true }] });
+		// The leader's front rests on the zone end, the follower stays a gap behind
+		expect(offsets(queue)).toEqual([2, 1.7]);
+		expect(queue.map(({ queued }) => queued)).toEqual([true, true]);
+
+		// Items already closer than the gap wait instead of moving backwards
+		const close = createQueue(2, 1.8);
+		step(close, { zones: [{ start: 1, end: 2.1, hold: true }] });
+		expect(offsets(close)).toEqual([2, 1.8]);
+	});
+
+	it("holds items at the end of a holding zone and ignores open zones", () => {
+		const queue = createQueue(4.8);
+		step(queue, { zones: [{ start: 4, end: 5 }] });
+		expect(offsets(queue)).toEqual([5.3]);
+
+		const held = createQueue(4.8);
+		step(held, { zones: [{ start: 4, end: 5, hold: true }] });
+		expect(offsets(held)).toEqual([4.9]);
+		expect(held[0]?.queued).toBe(true);
+
+		// Items already past the zone are not pulled back
+		const past = createQueue(5.5);
+		step(past, { zones: [{ start: 4, end: 5, hold: true }] });
+		expect(offsets(past)).toEqual([6]);
+	});
+
+	it("stops the front item at a blocked end and reports arrival once", () => {
+		const queue = createQueue(9.7, 9.2);
+		const first = step(queue, { blocked: true });
+		expect(offsets(queue)).toEqual([9.9, 9.6]);
+		expect(first.arrived).toEqual([0]);
+		expect(first.departed).toEqual([]);
+
+		const second = step(queue, { blocked: true });
+		expect(second.arrived).toEqual([]);
+		expect(second.moved).toEqual([]);
+		expect(queue.map(({ queued }) => queued)).toEqual([true, true]);
+	});
+
+	it("drops items off an open end", () => {
+		const queue = createQueue(9.8, 5);
+		const { arrived, departed } = step(queue);
+		expect(arrived).toEqual([0]);
+		expect(departed).toEqual([0]);
+		expect(offsets(queue)).toEqual([5.5]);
+	});
+
+	it("hands items to the next belt with the overshoot, or waits at the end", () => {
+		const handed: [number, number][] = [];
+		const queue = createQueue(9.8);
+		const refused = step(queue, { transfer: () => false });
+		expect(refused.departed).toEqual([]);
+		expect(offsets(queue)).toEqual([10]);
+
+		const accepted = step(queue, {
+			transfer: (item, overshoot) => {
+				handed.push([item.id, Number(overshoot.toFixed(6))]);
+				return true;
+			},
+		});
+		expect(accepted.departed).toEqual([0]);
+		expect(handed).toEqual([[0, 0.5]]);
+	});
+
+	it("moves items back toward the start when reversed", () => {
+		const queue = createQueue(0.3, 0.5, 5);
+		const { departed, arrived } = step(queue, {
+			direction: -1,
+			zones: [{ start: 4.8, end: 6, hold: true }],
+		});
+		// The first item leaves at the start and still spaces the one behind it
+		// this frame; a reversed zone holds the leading end at the zone start
+		expect(departed).toEqual([0]);
+		expect(arrived).toEqual([]);
+		expect(offsets(queue)).toEqual([4.9, 0.1]);
+	});
+
+	it("ignores a blocked end when reversed", () => {
+		const queue = createQueue(9.9);
+		step(queue, { direction: -1, blocked: true });
+		expect(offsets(queue)).toEqual([9.4]);
+	});
+
+	it("reports a full belt once the queue backs up to the entry", () => {
+		const queue = createQueue(9.9, 9.6, 9.3, 9, 8.7);
+		step(queue, { blocked: true });
+		expect(isQueueFull(queue, 1, options)).toBe(false);
+
+		const packed = createQueue(0.7, 0.4, 0.1);
+		step(packed, { zones: [{ start: 0, end: 0.8, hold: true }] });
+		expect(isQueueFull(packed, 1, options)).toBe(true);
+
+		// Reversed, the entry is the end of the belt
+		const reversed = createQueue(9.9, 9.6, 9.3);
+		step(reversed, {
+			direction: -1,
+			zones: [{ start: 9.2, end: 10, hold: true }],
+		});
+		expect(isQueueFull(reversed, -1, options)).toBe(true);
+		expect(isQueueFull(reversed, 1, options)).toBe(false);
+	});
+
+	it("finds the zone an offset lies in", () => {
+		const zones = [
+			{ start: 1, end: 2 },
+			{ start: 4, end: 6, hold: true },
+		];
+		expect(findZone(zones, 1.5)).toBe(0);
+		expect(findZone(zones, 6)).toBe(1);
+		expect(findZone(zones, 3)).toBe(-1);
+	});
+});
@@ -0,0 +1,191 @@
+// Queue maths behind ConveyorBelt. Offsets are distances along the belt curve
+// from its start (metres); the queue is sorted by offset, front item first,
+// and items never overtake each other.
+
+const Epsilon = 1e-6;
+
+// Accumulation zone [start, end] (metres); with `hold` items stop at the end
+// of the zone (the start when reversed) and the ones behind queue up
+export interface ConveyorAccumulationZone {
+	start: number;
+	end: number;
+	hold?: boolean;
+}
+
+export interface ConveyorQueueItem {
+	id: number;
+	kind: string;
+	offset: number;
+	queued: boolean; // Held back by the item ahead, a zone or the blocked end
+	arrived: boolean; // The item's front already reached the end once
+}
+
+// Distances from an item's origin to its front and back ends
+export interface ConveyorItemExtent {
+	front: number;
+	back: number;
+}
+
+export interface ConveyorQueueOptions {
+	length: number;
+	minGap: number;
+	extentOf: (kind: string) => ConveyorItemExtent;
+}
+
+export interface ConveyorAdvanceOptions extends ConveyorQueueOptions {
+	// Items move toward the end for 1 and toward the start for -1
+	direction: 1 | -1;
+	distance: number;
+	blocked?: boolean;
+	zones?: readonly ConveyorAccumulationZone[];
+	// Hands an item whose origin passed the end to the next belt, with the
+	// distance it overshot; returning false keeps it waiting at the end
+	transfer?: ((item: ConveyorQueueItem, overshoot: number) => boolean) | null;
+}
+
+export interface ConveyorAdvanceResult {
+	moved: ConveyorQueueItem[];
+	arrived: number[]; // Front reached the end, reported once per item
+	departed: number[]; // Left the belt (or was transferred), still in the queue
+}
+
+// Whether an item of `kind` fits at `offset` keeping minGap to every other item
+export function hasRoomAt(
+	queue: readonly ConveyorQueueItem[],
+	kind: string,
+	offset: number,
+	{ minGap, extentOf }: Pick<ConveyorQueueOptions, "minGap" | "extentOf">,
+): boolean {
+	const extent = extentOf(kind);
+	return queue.every((other) => {
+		const otherExtent = extentOf(other.kind);
+		return (
+			offset + extent.front + minGap <=
+				other.offset - otherExtent.back + Epsilon ||
+			other.offset + otherExtent.front + minGap <=
+				offset - extent.back + Epsilon
+		);
+	});
+}
+
+// Insert keeping the queue sorted front first
+export function insertQueueItem(
+	queue: ConveyorQueueItem[],
+	item: ConveyorQueueItem,
+): void {
+	const index = queue.findIndex((other) => other.offset < item.offset);
+	queue.splice(index < 0 ? queue.length : index, 0, item);
+}
+
+/**
+ * Move every item by `distance`, starting from the one in front. Each item is
+ * limited by the blocked end, holding zones and the gap to the item ahead.
+ * Items leave at the end (or at the start when reversed); only forward
+ * movement transfers items and reports arrivals. Work is done in
+ * progress = offset * direction so both directions share the same maths.
+ */
+export function advanceQueue(
+	queue: readonly ConveyorQueueItem[],
+	options: ConveyorAdvanceOptions,
+): ConveyorAdvanceResult {
+	const {
+		length,
+		minGap,
+		extentOf,
+		direction,
+		distance,
+		blocked = false,
+		zones = [],
+		transfer,
+	} = options;
+	const result: ConveyorAdvanceResult = {
+		moved: [],
+		arrived: [],
+		departed: [],
+	};
+
+	const count = queue.length;
+	let leader: ConveyorQueueItem | undefined;
+	for (let n = 0; n < count; n++) {
+		const item = queue[direction > 0 ? n : count - 1 - n];
+		if (!item) continue;
+		const extent = extentOf(item.kind);
+		const front = direction > 0 ? extent.front : extent.back;
+		const progress = item.offset * direction;
+
+		let limit =
+			direction > 0 && blocked ? length - front : Number.POSITIVE_INFINITY;
+		for (const zone of zones) {
+			const stop = direction > 0 ? zone.end : -zone.start;
+			if (zone.hold && progress + front <= stop + Epsilon) {
+				limit = Math.min(limit, stop - front);
+			}
+		}
+		if (leader) {
+			const leaderExtent = extentOf(leader.kind);
+			const leaderBack = direction > 0 ? leaderExtent.back : leaderExtent.front;
+			limit = Math.min(
+				limit,
+				leader.offset * direction - leaderBack - minGap - front,
+			);
+		}
+
+		const target = progress + distance;
+		let next = Math.max(progress, Math.min(target, limit));
+
+		if (direction > 0) {
+			if (!item.arrived && next + extent.front >= length - Epsilon) {
+				item.arrived = true;
+				result.arrived.push(item.id);
+			}
+
+			if (transfer && next >= length) {
+				// Carry the overshoot onto the next belt, or wait at the end
+				if (transfer(item, next - length)) {
+					result.departed.push(item.id);
+					leader = item;
+					continue;
+				}
+				next = Math.max(progress, length);
+			} else if (next > length) {
+				result.departed.push(item.id);
+			}
+		} else if (next > 0) {
+			result.departed.push(item.id);
+		}
+
+		item.queued = next < target;
+		const offset = next * direction;
+		if (offset !== item.offset) {
+			item.offset = offset;
+			result.moved.push(item);
+		}
+		leader = item;
+	}
+
+	return result;
+}
+
+// Whether the queue backs up to the entry (the start, or the end when reversed)
+export function isQueueFull(
+	queue: readonly ConveyorQueueItem[],
+	direction: 1 | -1,
+	{ length, minGap, extentOf }: ConveyorQueueOptions,
+): boolean {
+	const rear = direction > 0 ? queue[queue.length - 1] : queue[0];
+	if (!rear?.queued) return false;
+	const extent = extentOf(rear.kind);
+	const room =
+		direction > 0
+			? rear.offset - extent.back
+			: length - rear.offset - extent.front;
+	return room <= minGap + Epsilon;
+}
+
+// Index of the zone containing `offset`, or -1
+export function findZone(
+	zones: readonly ConveyorAccumulationZone[],
+	offset: number,
+): number {
+	return zones.findIndex((zone) => offset >= zone.start && offset <= zone.end);
+}
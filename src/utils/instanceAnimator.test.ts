@@ -0,0 +1,78 @@
+import { type Color, Matrix4 } from "three";
+import {
+	InstanceAnimator,
+	type InstanceAnimatorTarget,
+} from "./instanceAnimator";
+
+// Keeps matrices and colors in memory like an InstancedMeshPool
+function createPool(): InstanceAnimatorTarget {
+	const matrices = new Map<number, Matrix4>();
+	const colors = new Map<number, Color>();
+	return {
+		getMatrixAt: (index, matrix) =>
+			matrix.copy(matrices.get(index) ?? new Matrix4()),
+		setMatrixAt: (index, matrix) => {
+			matrices.set(index, matrix.clone());
+		},
+		getColorAt: (index, color) => color.copy(colors.get(index) ?? color),
+		setColorAt: (index, color) => {
+			colors.set(index, color.clone());
+		},
+	};
+}
+
+describe("InstanceAnimator", () => {
+	let animator: InstanceAnimator;
+
+	beforeEach(() => {
+		animator = new InstanceAnimator(createPool());
+	});
+
+	afterEach(() => {
+		animator.destroy();
+	});
+
+	it("calls onComplete when every tween finished", async () => {
+		const onComplete = jest.fn();
+		await animator.animate([0, 1], {
+			position: { x: 1 },
+			duration: 0.01,
+			onComplete,
+		});
+		expect(onComplete).toHaveBeenCalledTimes(1);
+	});
+
+	it("does not call onComplete for killed animations", async () => {
+		const onComplete = jest.fn();
+		const running = animator.animate([0, 1], {
+			position: { x: 1 },
+			duration: 10,
+			onComplete,
+		});
+		// Queued behind the running one and skipped by the kill
+		const queued = animator.animate(0, {
+			position: { x: 2 },
+			duration: 10,
+			onComplete,
+		});
+		await Promise.resolve();
+
+		animator.kill();
+		await Promise.all([running, queued]);
+		expect(onComplete).not.toHaveBeenCalled();
+	});
+
+	it("does not call onComplete when part of the selection was killed", async () => {
+		const onComplete = jest.fn();
+		const running = animator.animate([0, 1], {
+			position: { x: 1 },
+			duration: 0.05,
+			onComplete,
+		});
+		await Promise.resolve();
+
+		animator.kill(1);
+		await running;
+		expect(onComplete).not.toHaveBeenCalled();
+	});
+});
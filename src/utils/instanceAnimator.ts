@@ -0,0 +1,356 @@
+import { gsap } from "gsap";
+import {
+	Color,
+	type ColorRepresentation,
+	Euler,
+	Matrix4,
+	Quaternion,
+	Vector3,
+} from "three";
+
+const tempMatrix = new Matrix4();
+const tempPosition = new Vector3();
+const tempQuaternion = new Quaternion();
+const tempScale = new Vector3();
+const tempEuler = new Euler();
+const tempColor = new Color();
+
+export interface InstanceAnimationConfig {
+	position?: {
+		x?: number;
+		y?: number;
+		z?: number;
+	};
+	rotation?: {
+		x?: number;
+		y?: number;
+		z?: number;
+	};
+	scale?:
+		| number
+		| {
+				x?: number;
+				y?: number;
+				z?: number;
+		  };
+	color?: ColorRepresentation;
+	duration?: number;
+	ease?: string;
+	delay?: number;
+	stagger?: number; // Extra delay per instance when animating several at once
+	onComplete?: () => void;
+	onUpdate?: () => void;
+}
+
+// A single index, a list of indices, or `count` indices starting at `start`
+export type InstanceSelection =
+	| number
+	| number[]
+	| { start: number; count: number };
+
+// The pool methods the animator reads and writes through (InstancedMeshPoolRef)
+export interface InstanceAnimatorTarget {
+	getMatrixAt: (index: number, matrix: Matrix4) => Matrix4;
+	setMatrixAt: (index: number, matrix: Matrix4) => void;
+	getColorAt: (index: number, color: Color) => Color;
+	setColorAt: (index: number, color: Color) => void;
+}
+
+// Decomposed transform and color of an animated instance; GSAP tweens these fields
+interface InstanceState {
+	posX: number;
+	posY: number;
+	posZ: number;
+	rotX: number;
+	rotY: number;
+	rotZ: number;
+	sclX: number;
+	sclY: number;
+	sclZ: number;
+	r: number;
+	g: number;
+	b: number;
+	active: number;
+}
+
+interface TrackedTween {
+	index: number;
+	resolve: (completed: boolean) => void;
+}
+
+function toIndices(selection: InstanceSelection): number[] {
+	if (typeof selection === "number") return [selection];
+	if (Array.isArray(selection)) return selection;
+	return Array.from({ length: selection.count }, (_, i) => selection.start + i);
+}
+
+export class InstanceAnimator {
+	private pool: InstanceAnimatorTarget;
+	private states: Map<number, InstanceState> = new Map();
+	private queues: Map<number, Promise<boolean>> = new Map();
+	private tweens: Map<gsap.core.Tween, TrackedTween> = new Map(); // Kept so kill() can settle the promises
+	private epoch = 0; // Bumped by kill() so queued animations are skipped
+	private indexEpochs: Map<number, number> = new Map();
+	private dirtyMatrices: Set<number> = new Set();
+	private dirtyColors: Set<number> = new Set();
+	public isDestroyed = false;
+
+	constructor(pool: InstanceAnimatorTarget) {
+		this.pool = pool;
+		// Write all changed instances once per tick, after GSAP has updated the tweens
+		gsap.ticker.add(this.flush);
+	}
+
+	// Animations on the same instance play one after another; different instances run in parallel
+	animate(
+		selection: InstanceSelection,
+		config: InstanceAnimationConfig,
+	): Promise<void> {
+		if (this.isDestroyed) return Promise.resolve();
+
+		const indices = toIndices(selection);
+		const stagger = config.stagger ?? 0;
+		const promises = indices.map((index, i) => {
+			const previous = this.queues.get(index) ?? Promise.resolve(true);
+			const epoch = this.epochOf(index);
+			const next = previous.then(() =>
+				this.epochOf(index) === epoch
+					? this.tweenInstance(index, config, stagger * i, i === 0)
+					: false,
+			);
+			this.queues.set(index, next);
+			next.then(() => {
+				if (this.queues.get(index) === next) this.queues.delete(index);
+			});
+			return next;
+		});
+
+		// Like GSAP, onComplete only fires when no tween of the call was killed or skipped
+		return Promise.all(promises).then((completed) => {
+			if (!this.isDestroyed && completed.every(Boolean)) {
+				config.onComplete?.();
+			}
+		});
+	}
+
+	animateSequence(
+		selection: InstanceSelection,
+		configs: InstanceAnimationConfig[],
+	): Promise<void> {
+		return Promise.all(
+			configs.map((config) => this.animate(selection, config)),
+		).then(() => undefined);
+	}
+
+	// Writes pending changes to the pool; runs automatically on the GSAP ticker
+	flush = (): void => {
+		if (this.dirtyMatrices.size > 0) {
+			this.dirtyMatrices.forEach((index) => {
+				const state = this.states.get(index);
+				if (!state) return;
+				tempPosition.set(state.posX, state.posY, state.posZ);
+				tempQuaternion.setFromEuler(
+					tempEuler.set(state.rotX, state.rotY, state.rotZ),
+				);
+				tempScale.set(state.sclX, state.sclY, state.sclZ);
+				this.pool.setMatrixAt(
+					index,
+					tempMatrix.compose(tempPosition, tempQuaternion, tempScale),
+				);
+			});
+		}
+
+		if (this.dirtyColors.size > 0) {
+			this.dirtyColors.forEach((index) => {
+				const state = this.states.get(index);
+				if (state) {
+					this.pool.setColorAt(
+						index,
+						tempColor.setRGB(state.r, state.g, state.b),
+					);
+				}
+			});
+		}
+
+		// Forget idle instances so the next animation starts from the pool's current data
+		const flushed = new Set([...this.dirtyMatrices, ...this.dirtyColors]);
+		this.dirtyMatrices.clear();
+		this.dirtyColors.clear();
+		flushed.forEach((index) => {
+			if (this.states.get(index)?.active === 0) this.states.delete(index);
+		});
+	};
+
+	// Stop running and queued animations, for the selection or for every instance
+	kill(selection?: InstanceSelection): void {
+		const indices =
+			selection === undefined ? null : new Set(toIndices(selection));
+		if (indices) {
+			indices.forEach((index) => {
+				this.indexEpochs.set(index, (this.indexEpochs.get(index) ?? 0) + 1);
+				this.queues.delete(index);
+			});
+		} else {
+			this.epoch++;
+			this.queues.clear();
+		}
+
+		this.tweens.forEach(({ index, resolve }, tween) => {
+			if (indices && !indices.has(index)) return;
+			tween.kill();
+			this.tweens.delete(tween);
+			const state = this.states.get(index);
+			if (state && --state.active === 0) this.states.delete(index);
+			resolve(false);
+		});
+	}
+
+	pause(): void {
+		if (this.isDestroyed) return;
+		this.tweens.forEach((_, tween) => {
+			tween.pause();
+		});
+	}
+
+	resume(): void {
+		if (this.isDestroyed) return;
+		this.tweens.forEach((_, tween) => {
+			tween.resume();
+		});
+	}
+
+	isPlaying(): boolean {
+		if (this.isDestroyed) return false;
+		for (const tween of this.tweens.keys()) {
+			if (tween.isActive()) return true;
+		}
+		return false;
+	}
+
+	// Complete cleanup and destroy the animator
+	destroy(): void {
+		this.isDestroyed = true;
+		this.kill();
+		gsap.ticker.remove(this.flush);
+		this.states.clear();
+		this.dirtyMatrices.clear();
+		this.dirtyColors.clear();
+	}
+
+	// Resolves with true when the tween finished, false when it was killed
+	private tweenInstance(
+		index: number,
+		config: InstanceAnimationConfig,
+		staggerDelay: number,
+		reportUpdates: boolean,
+	): Promise<boolean> {
+		if (this.isDestroyed) return Promise.resolve(false);
+
+		return new Promise((resolve) => {
+			const state = this.acquireState(index);
+			const targets: Record<string, number> = {};
+
+			if (config.position) {
+				if (config.position.x !== undefined) targets.posX = config.position.x;
+				if (config.position.y !== undefined) targets.posY = config.position.y;
+				if (config.position.z !== undefined) targets.posZ = config.position.z;
+			}
+
+			if (config.rotation) {
+				if (config.rotation.x !== undefined) targets.rotX = config.rotation.x;
+				if (config.rotation.y !== undefined) targets.rotY = config.rotation.y;
+				if (config.rotation.z !== undefined) targets.rotZ = config.rotation.z;
+			}
+
+			if (typeof config.scale === "number") {
+				targets.sclX = config.scale;
+				targets.sclY = config.scale;
+				targets.sclZ = config.scale;
+			} else if (config.scale) {
+				if (config.scale.x !== undefined) targets.sclX = config.scale.x;
+				if (config.scale.y !== undefined) targets.sclY = config.scale.y;
+				if (config.scale.z !== undefined) targets.sclZ = config.scale.z;
+			}
+
+			const hasTransform = Object.keys(targets).length > 0;
+			const hasColor = config.color !== undefined;
+			if (config.color !== undefined) {
+				tempColor.set(config.color);
+				targets.r = tempColor.r;
+				targets.g = tempColor.g;
+				targets.b = tempColor.b;
+			}
+
+			if (!hasTransform && !hasColor) {
+				if (state.active === 0) this.states.delete(index);
+				resolve(true);
+				return;
+			}
+
+			const markDirty = () => {
+				if (hasTransform) this.dirtyMatrices.add(index);
+				if (hasColor) this.dirtyColors.add(index);
+			};
+
+			state.active++;
+			const tween = gsap.to(state, {
+				...targets,
+				duration: config.duration || 1,
+				ease: config.ease || "power2.inOut",
+				delay: (config.delay || 0) + staggerDelay,
+				onUpdate: () => {
+					if (this.isDestroyed) return;
+					markDirty();
+					if (reportUpdates) config.onUpdate?.();
+				},
+				onComplete: () => {
+					this.tweens.delete(tween);
+					state.active--;
+					markDirty();
+					resolve(true);
+				},
+			});
+			this.tweens.set(tween, { index, resolve });
+		});
+	}
+
+	// Reuse the live state while an instance is animating, otherwise read it from the pool
+	private acquireState(index: number): InstanceState {
+		const existing = this.states.get(index);
+		if (existing) return existing;
+
+		this.pool
+			.getMatrixAt(index, tempMatrix)
+			.decompose(tempPosition, tempQuaternion, tempScale);
+		tempEuler.setFromQuaternion(tempQuaternion);
+		this.pool.getColorAt(index, tempColor.setRGB(1, 1, 1));
+
+		const state: InstanceState = {
+			posX: tempPosition.x,
+			posY: tempPosition.y,
+			posZ: tempPosition.z,
+			rotX: tempEuler.x,
+			rotY: tempEuler.y,
+			rotZ: tempEuler.z,
+			sclX: tempScale.x,
+			sclY: tempScale.y,
+			sclZ: tempScale.z,
+			r: tempColor.r,
+			g: tempColor.g,
+			b: tempColor.b,
+			active: 0,
+		};
+		this.states.set(index, state);
+		return state;
+	}
+
+	private epochOf(index: number): number {
+		return this.epoch + (this.indexEpochs.get(index) ?? 0);
+	}
+}
+
+export function createInstanceAnimator(
+	pool: InstanceAnimatorTarget,
+): InstanceAnimator {
+	return new InstanceAnimator(pool);
+}
@@ -0,0 +1,152 @@
+import { Box3, Euler, Matrix4, Quaternion, Ray, Vector3 } from "three";
+import { InstanceBVH } from "./instanceBVH";
+
+const geometryBox = new Box3(new Vector3(-1, -1, -1), new Vector3(1, 1, 1));
+
+// Small deterministic PRNG so failures are reproducible
+function createRandom(seed: number) {
+	let state = seed;
+	return () => {
+		state = (state * 1664525 + 1013904223) % 4294967296;
+		return state / 4294967296;
+	};
+}
+
+function randomMatrices(count: number, random: () => number) {
+	const matrices = new Float32Array(count * 16);
+	const matrix = new Matrix4();
+	const quaternion = new Quaternion();
+	for (let i = 0; i < count; i++) {
+		quaternion.setFromEuler(
+			new Euler(random() * Math.PI, random() * Math.PI, random() * Math.PI),
+		);
+		matrix.compose(
+			new Vector3(
+				(random() - 0.5) * 40,
+				(random() - 0.5) * 40,
+				(random() - 0.5) * 40,
+			),
+			quaternion,
+			new Vector3(0.5 + random(), 0.5 + random(), 0.5 + random()),
+		);
+		matrix.toArray(matrices, i * 16);
+	}
+	return matrices;
+}
+
+function randomRays(count: number, random: () => number) {
+	const rays: Ray[] = [];
+	for (let i = 0; i < count; i++) {
+		const origin = new Vector3(
+			(random() - 0.5) * 60,
+			(random() - 0.5) * 60,
+			(random() - 0.5) * 60,
+		);
+		// Aim roughly at the cloud so most rays hit something
+		const target = new Vector3(
+			(random() - 0.5) * 20,
+			(random() - 0.5) * 20,
+			(random() - 0.5) * 20,
+		);
+		rays.push(new Ray(origin, target.sub(origin).normalize()));
+	}
+	return rays;
+}
+
+// Every instance whose transformed geometry box is hit by the ray
+function bruteForceHits(
+	ray: Ray,
+	matrices: Float32Array,
+	count: number,
+	geometryBox: Box3,
+) {
+	const hits: number[] = [];
+	const matrix = new Matrix4();
+	const box = new Box3();
+	for (let i = 0; i < count; i++) {
+		matrix.fromArray(matrices, i * 16);
+		box.copy(geometryBox).applyMatrix4(matrix);
+		if (ray.intersectsBox(box)) hits.push(i);
+	}
+	return hits;
+}
+
+// Candidates come per leaf, so they may include instances the ray misses,
+// but never skip one it hits and never repeat an instance
+function expectCandidates(
+	bvh: InstanceBVH,
+	ray: Ray,
+	matrices: Float32Array,
+	count: number,
+) {
+	const candidates: number[] = [];
+	bvh.intersectRay(ray, (index) => candidates.push(index));
+	const unique = new Set(candidates);
+	expect(unique.size).toBe(candidates.length);
+	expect(candidates.filter((index) => index >= count)).toEqual([]);
+
+	const hits = bruteForceHits(ray, matrices, count, geometryBox);
+	expect(hits.filter((index) => !unique.has(index))).toEqual([]);
+	return { candidates: candidates.length, hits: hits.length };
+}
+
+describe("InstanceBVH", () => {
+	it("returns every instance a brute-force box test hits after a build", () => {
+		const random = createRandom(1);
+		const count = 500;
+		const matrices = randomMatrices(count, random);
+		const bvh = new InstanceBVH();
+		bvh.build(matrices, count, geometryBox);
+
+		let totalCandidates = 0;
+		let totalHits = 0;
+		const rays = randomRays(200, random);
+		for (const ray of rays) {
+			const { candidates, hits } = expectCandidates(bvh, ray, matrices, count);
+			totalCandidates += candidates;
+			totalHits += hits;
+		}
+		expect(totalHits).toBeGreaterThan(0);
+		// The tree has to prune most of the batch to be worth it
+		expect(totalCandidates).toBeLessThan((rays.length * count) / 4);
+	});
+
+	it("returns every hit instance after the matrices move and the tree is refit", () => {
+		const random = createRandom(2);
+		const count = 300;
+		const bvh = new InstanceBVH();
+		bvh.build(randomMatrices(count, random), count, geometryBox);
+
+		const moved = randomMatrices(count, random);
+		bvh.update(moved, count, geometryBox);
+		expect(bvh.instanceCount).toBe(count);
+
+		for (const ray of randomRays(200, random)) {
+			expectCandidates(bvh, ray, moved, count);
+		}
+	});
+
+	it("rebuilds when the instance count changes", () => {
+		const random = createRandom(3);
+		const bvh = new InstanceBVH();
+		bvh.update(randomMatrices(50, random), 50, geometryBox);
+
+		const count = 120;
+		const matrices = randomMatrices(count, random);
+		bvh.update(matrices, count, geometryBox);
+		expect(bvh.instanceCount).toBe(count);
+
+		for (const ray of randomRays(100, random)) {
+			expectCandidates(bvh, ray, matrices, count);
+		}
+	});
+
+	it("reports nothing for an empty batch", () => {
+		const bvh = new InstanceBVH();
+		bvh.build(new Float32Array(0), 0, geometryBox);
+		const ray = new Ray(new Vector3(0, 0, -10), new Vector3(0, 0, 1));
+		const candidates: number[] = [];
+		bvh.intersectRay(ray, (index) => candidates.push(index));
+		expect(candidates).toEqual([]);
+	});
+});
@@ -0,0 +1,189 @@
+import { Box3, Matrix4, type Ray, Vector3 } from "three";
+
+const MaxLeafSize = 8;
+
+const tempBox = new Box3();
+const tempMatrix = new Matrix4();
+const tempMin = new Vector3();
+const tempMax = new Vector3();
+
+/**
+ * Bounding volume hierarchy over the instances of one InstancedMesh batch.
+ * Bounds are stored in the mesh's local space so the tree survives moving
+ * the mesh itself; only instance matrix changes require an update.
+ */
+export class InstanceBVH {
+	public instanceCount = 0;
+	private leafBounds = new Float32Array(0);
+	private order = new Uint32Array(0);
+	private nodeBounds = new Float32Array(0);
+	private nodeLeft = new Int32Array(0);
+	private nodeRight = new Int32Array(0);
+	private nodeStart = new Uint32Array(0);
+	private nodeCount = new Uint32Array(0);
+	private nodeTotal = 0;
+	private stack = new Int32Array(64);
+
+	// Rebuild when the instance count changed, otherwise refit the existing tree
+	update(matrices: ArrayLike<number>, count: number, geometryBox: Box3): void {
+		if (count !== this.instanceCount || this.nodeTotal === 0) {
+			this.build(matrices, count, geometryBox);
+		} else {
+			this.refit(matrices, count, geometryBox);
+		}
+	}
+
+	build(matrices: ArrayLike<number>, count: number, geometryBox: Box3): void {
+		this.instanceCount = count;
+		if (this.leafBounds.length < count * 6) {
+			this.leafBounds = new Float32Array(count * 6);
+			this.order = new Uint32Array(count);
+			const maxNodes = Math.max(1, count * 2);
+			this.nodeBounds = new Float32Array(maxNodes * 6);
+			this.nodeLeft = new Int32Array(maxNodes);
+			this.nodeRight = new Int32Array(maxNodes);
+			this.nodeStart = new Uint32Array(maxNodes);
+			this.nodeCount = new Uint32Array(maxNodes);
+		}
+
+		this.computeLeafBounds(matrices, count, geometryBox);
+		for (let i = 0; i < count; i++) {
+			this.order[i] = i;
+		}
+
+		this.nodeTotal = 0;
+		if (count > 0) {
+			this.buildNode(0, count);
+		}
+	}
+
+	refit(matrices: ArrayLike<number>, count: number, geometryBox: Box3): void {
+		this.computeLeafBounds(matrices, count, geometryBox);
+
+		// Nodes are stored in pre-order, so children always come after parents
+		for (let node = this.nodeTotal - 1; node >= 0; node--) {
+			this.computeNodeBounds(node);
+		}
+	}
+
+	// Calls back every instance whose bounds are hit by the ray (in mesh local space)
+	intersectRay(ray: Ray, callback: (instanceIndex: number) => void): void {
+		if (this.nodeTotal === 0) return;
+
+		let stackSize = 0;
+		this.stack[stackSize++] = 0;
+		while (stackSize > 0) {
+			const node = this.stack[--stackSize] ?? 0;
+			if (!ray.intersectsBox(this.getNodeBox(node))) continue;
+
+			const left = this.nodeLeft[node] ?? -1;
+			const right = this.nodeRight[node] ?? -1;
+			if (left < 0) {
+				const start = this.nodeStart[node] ?? 0;
+				const end = start + (this.nodeCount[node] ?? 0);
+				for (let i = start; i < end; i++) {
+					callback(this.order[i] ?? 0);
+				}
+				continue;
+			}
+
+			if (stackSize + 2 > this.stack.length) {
+				const stack = new Int32Array(this.stack.length * 2);
+				stack.set(this.stack);
+				this.stack = stack;
+			}
+			this.stack[stackSize++] = left;
+			this.stack[stackSize++] = right;
+		}
+	}
+
+	private computeLeafBounds(
+		matrices: ArrayLike<number>,
+		count: number,
+		geometryBox: Box3,
+	): void {
+		for (let i = 0; i < count; i++) {
+			tempMatrix.fromArray(matrices, i * 16);
+			tempBox.copy(geometryBox).applyMatrix4(tempMatrix);
+			tempBox.min.toArray(this.leafBounds, i * 6);
+			tempBox.max.toArray(this.leafBounds, i * 6 + 3);
+		}
+	}
+
+	private buildNode(start: number, count: number): number {
+		const node = this.nodeTotal++;
+		this.nodeStart[node] = start;
+		this.nodeCount[node] = count;
+		this.nodeLeft[node] = -1;
+		this.nodeRight[node] = -1;
+		this.computeNodeBounds(node);
+
+		if (count <= MaxLeafSize) return node;
+
+		// Split at the median of the longest axis
+		const offset = node * 6;
+		const bounds = this.nodeBounds;
+		const extentX = (bounds[offset + 3] ?? 0) - (bounds[offset] ?? 0);
+		const extentY = (bounds[offset + 4] ?? 0) - (bounds[offset + 1] ?? 0);
+		const extentZ = (bounds[offset + 5] ?? 0) - (bounds[offset + 2] ?? 0);
+		const axis =
+			extentX >= extentY && extentX >= extentZ ? 0 : extentY >= extentZ ? 1 : 2;
+
+		const leafBounds = this.leafBounds;
+		const centroid = (instance: number) =>
+			(leafBounds[instance * 6 + axis] ?? 0) +
+			(leafBounds[instance * 6 + 3 + axis] ?? 0);
+		this.order
+			.subarray(start, start + count)
+			.sort((a, b) => centroid(a) - centroid(b));
+
+		const half = Math.floor(count / 2);
+		this.nodeLeft[node] = this.buildNode(start, half);
+		this.nodeRight[node] = this.buildNode(start + half, count - half);
+		return node;
+	}
+
+	private computeNodeBounds(node: number): void {
+		const left = this.nodeLeft[node] ?? -1;
+		const right = this.nodeRight[node] ?? -1;
+		tempMin.set(
+			Number.POSITIVE_INFINITY,
+			Number.POSITIVE_INFINITY,
+			Number.POSITIVE_INFINITY,
+		);
+		tempMax.set(
+			Number.NEGATIVE_INFINITY,
+			Number.NEGATIVE_INFINITY,
+			Number.NEGATIVE_INFINITY,
+		);
+
+		if (left < 0) {
+			const start = this.nodeStart[node] ?? 0;
+			const end = start + (this.nodeCount[node] ?? 0);
+			for (let i = start; i < end; i++) {
+				this.expandBy(this.leafBounds, (this.order[i] ?? 0) * 6);
+			}
+		} else {
+			this.expandBy(this.nodeBounds, left * 6);
+			this.expandBy(this.nodeBounds, right * 6);
+		}
+
+		tempMin.toArray(this.nodeBounds, node * 6);
+		tempMax.toArray(this.nodeBounds, node * 6 + 3);
+	}
+
+	private expandBy(bounds: Float32Array, offset: number): void {
+		tempMin.x = Math.min(tempMin.x, bounds[offset] ?? 0);
+		tempMin.y = Math.min(tempMin.y, bounds[offset + 1] ?? 0);
+		tempMin.z = Math.min(tempMin.z, bounds[offset + 2] ?? 0);
+		tempMax.x = Math.max(tempMax.x, bounds[offset + 3] ?? 0);
+		tempMax.y = Math.max(tempMax.y, bounds[offset + 4] ?? 0);
+		tempMax.z = Math.max(tempMax.z, bounds[offset + 5] ?? 0);
+	}
+
+	private getNodeBox(node: number): Box3 {
+		tempBox.min.fromArray(this.nodeBounds, node * 6);
+		tempBox.max.fromArray(this.nodeBounds, node * 6 + 3);
+		return tempBox;
+	}
+}
@@ -0,0 +1,214 @@
+import {
+	connectInstanceWorker,
+	InstanceWorkerBridge,
+	type InstanceWorkerMessage,
+	type InstanceWorkerPort,
+	type InstanceWorkerSink,
+} from "./instanceWorker";
+
+type Listener = (event: MessageEvent<InstanceWorkerMessage>) => void;
+
+// Two connected in-memory ports. Messages are queued like a real
+// MessageChannel and only delivered by `flush`, so tests control the timing.
+function createChannel() {
+	const queue: { to: Set<Listener>; message: InstanceWorkerMessage }[] = [];
+	const transferred: Transferable[] = [];
+
+	const createPort = (
+		own: Set<Listener>,
+		other: Set<Listener>,
+	): InstanceWorkerPort => ({
+		postMessage: (message, transfer) => {
+			queue.push({ to: other, message });
+			transferred.push(...(transfer ?? []));
+		},
+		addEventListener: (_type, listener) => own.add(listener),
+		removeEventListener: (_type, listener) => own.delete(listener),
+	});
+
+	const mainListeners = new Set<Listener>();
+	const workerListeners = new Set<Listener>();
+	const main = createPort(mainListeners, workerListeners);
+	const worker = createPort(workerListeners, mainListeners);
+
+	const flush = async () => {
+		while (queue.length > 0) {
+			const next = queue.shift();
+			if (!next) break;
+			const event = {
+				data: next.message,
+			} as MessageEvent<InstanceWorkerMessage>;
+			for (const listener of [...next.to]) listener(event);
+		}
+		// Let promise callbacks (connect, ready) run
+		await Promise.resolve();
+	};
+
+	return { main, worker, flush, queue, transferred };
+}
+
+// Records what the bridge applies, copying the data as the pool would
+function createSink() {
+	const calls: {
+		method: keyof InstanceWorkerSink;
+		values: number[];
+		start?: number;
+	}[] = [];
+	const sink: InstanceWorkerSink = {
+		setMatrixArray: (matrices, start) =>
+			calls.push({ method: "setMatrixArray", values: [...matrices], start }),
+		setColorArray: (colors, start) =>
+			calls.push({ method: "setColorArray", values: [...colors], start }),
+		setInstanceCount: (count) =>
+			calls.push({ method: "setInstanceCount", values: [count] }),
+	};
+	return { sink, calls };
+}
+
+async function connect(options: {
+	capacity: number;
+	colors?: boolean;
+	shared?: boolean;
+}) {
+	const channel = createChannel();
+	const connecting = connectInstanceWorker(channel.worker);
+	const bridge = new InstanceWorkerBridge(channel.main, options);
+	await channel.flush();
+	const writer = await connecting;
+	return { ...channel, bridge, writer };
+}
+
+describe("instance worker protocol", () => {
+	it("applies a committed frame once, with copied ranges when memory is not shared", async () => {
+		const { bridge, writer, flush, transferred } = await connect({
+			capacity: 8,
+			colors: true,
+		});
+		expect(bridge.shared).toBe(false);
+		expect(writer.shared).toBe(false);
+		expect(writer.colors).not.toBeNull();
+
+		writer.begin();
+		writer.matrices.fill(2, 16 * 2, 16 * 4);
+		writer.write("matrices", 2, 2);
+		writer.colors?.set([0.5, 0.25, 1], 3);
+		writer.write("colors", 1, 1);
+		writer.commit(4);
+		expect(transferred).toHaveLength(2);
+
+		const { sink, calls } = createSink();
+		// Nothing is applied until the messages arrive
+		expect(bridge.consume(sink)).toBe(false);
+
+		await flush();
+		expect(bridge.consume(sink)).toBe(true);
+		expect(calls).toEqual([
+			{
+				method: "setMatrixArray",
+				values: new Array(32).fill(2),
+				start: 2,
+			},
+			{ method: "setColorArray", values: [0.5, 0.25, 1], start: 1 },
+			{ method: "setInstanceCount", values: [4] },
+		]);
+
+		// The frame is not applied twice
+		expect(bridge.consume(sink)).toBe(false);
+		expect(calls).toHaveLength(3);
+	});
+
+	it("drops frames that were begun but not committed", async () => {
+		const { bridge, writer, flush } = await connect({ capacity: 4 });
+		const { sink, calls } = createSink();
+
+		writer.begin();
+		writer.write("matrices", 0, 1);
+		await flush();
+		expect(bridge.consume(sink)).toBe(false);
+
+		// A new begin replaces the unfinished frame
+		writer.begin();
+		writer.write("matrices", 3, 1);
+		writer.commit();
+		await flush();
+		expect(bridge.consume(sink)).toBe(true);
+		expect(calls.map(({ method, start }) => [method, start])).toEqual([
+			["setMatrixArray", 3],
+		]);
+	});
+
+	it("ignores writes and commits outside a frame", async () => {
+		const { bridge, writer, flush, queue } = await connect({ capacity: 4 });
+		const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+
+		writer.write("matrices", 0, 1);
+		writer.commit(1);
+		expect(queue).toHaveLength(0);
+		expect(warn).toHaveBeenCalledTimes(1);
+		warn.mockRestore();
+
+		await flush();
+		expect(bridge.consume(createSink().sink)).toBe(false);
+	});
+
+	it("resolves ready only after the pool consumed the last frame", async () => {
+		const { bridge, writer, flush } = await connect({ capacity: 4 });
+		let isReady = false;
+
+		await writer.ready();
+		writer.begin();
+		writer.write("matrices", 0, 1);
+		writer.commit();
+		const ready = writer.ready().then(() => {
+			isReady = true;
+		});
+
+		await flush();
+		expect(isReady).toBe(false);
+
+		bridge.consume(createSink().sink);
+		await flush();
+		await ready;
+		expect(isReady).toBe(true);
+	});
+
+	it("posts only ranges and reads shared memory when it is available", async () => {
+		const scope = globalThis as { crossOriginIsolated?: boolean };
+		const previous = scope.crossOriginIsolated;
+		scope.crossOriginIsolated = true;
+		try {
+			const { bridge, writer, flush, transferred } = await connect({
+				capacity: 4,
+			});
+			expect(bridge.shared).toBe(true);
+			expect(writer.shared).toBe(true);
+			expect(writer.colors).toBeNull();
+
+			writer.begin();
+			writer.matrices.fill(7, 16, 32);
+			writer.write("matrices", 1, 1);
+			writer.commit();
+			expect(transferred).toHaveLength(0);
+
+			await flush();
+			const { sink, calls } = createSink();
+			bridge.consume(sink);
+			expect(calls).toEqual([
+				{ method: "setMatrixArray", values: new Array(16).fill(7), start: 1 },
+			]);
+		} finally {
+			scope.crossOriginIsolated = previous;
+		}
+	});
+
+	it("stops listening after dispose", async () => {
+		const { bridge, writer, flush } = await connect({ capacity: 4 });
+		bridge.dispose();
+
+		writer.begin();
+		writer.write("matrices", 0, 1);
+		writer.commit();
+		await flush();
+		expect(bridge.consume(createSink().sink)).toBe(false);
+	});
+});
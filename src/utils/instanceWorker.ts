@@ -0,0 +1,295 @@
+// Messages exchanged between the main thread and the worker.
+// A worker frame is `begin`, any number of `write`s and a `commit`; the pool
+// only applies committed frames, then answers with `consumed`.
+export type InstanceWorkerTarget = "matrices" | "colors";
+
+export type InstanceWorkerMessage =
+	| {
+			type: "init";
+			capacity: number;
+			colors: boolean;
+			// Present when SharedArrayBuffer is available, otherwise writes carry data
+			sharedMatrices?: ArrayBuffer;
+			sharedColors?: ArrayBuffer;
+	  }
+	| { type: "begin"; frame: number }
+	| {
+			type: "write";
+			frame: number;
+			target: InstanceWorkerTarget;
+			start: number;
+			count: number;
+			data?: Float32Array;
+	  }
+	| { type: "commit"; frame: number; count?: number }
+	| { type: "consumed"; frame: number };
+
+// The subset of Worker / DedicatedWorkerGlobalScope used by both sides
+export interface InstanceWorkerPort {
+	postMessage(message: InstanceWorkerMessage, transfer?: Transferable[]): void;
+	addEventListener(
+		type: "message",
+		listener: (event: MessageEvent<InstanceWorkerMessage>) => void,
+	): void;
+	removeEventListener(
+		type: "message",
+		listener: (event: MessageEvent<InstanceWorkerMessage>) => void,
+	): void;
+}
+
+// The pool methods a committed frame is applied through (InstancedMeshPoolRef)
+export interface InstanceWorkerSink {
+	setMatrixArray: (matrices: Float32Array, startIndex?: number) => void;
+	setColorArray: (colors: Float32Array, startIndex?: number) => void;
+	setInstanceCount: (count: number) => void;
+}
+
+export interface InstanceWorkerBridgeOptions {
+	capacity: number;
+	colors?: boolean;
+	// Set to false to force the transfer fallback even if shared memory works
+	shared?: boolean;
+}
+
+const ItemSizes: Record<InstanceWorkerTarget, number> = {
+	matrices: 16,
+	colors: 3,
+};
+
+interface PendingWrite {
+	target: InstanceWorkerTarget;
+	start: number;
+	count: number;
+	data?: Float32Array;
+}
+
+interface PendingFrame {
+	frame: number;
+	writes: PendingWrite[];
+	count?: number;
+}
+
+type BufferConstructor = new (byteLength: number) => ArrayBuffer;
+
+// The tsconfig lib predates SharedArrayBuffer, so it is looked up at runtime.
+// Posting one also requires a cross-origin isolated page.
+function getSharedArrayBuffer(): BufferConstructor | null {
+	const scope = globalThis as unknown as {
+		SharedArrayBuffer?: BufferConstructor;
+		crossOriginIsolated?: boolean;
+	};
+	return scope.SharedArrayBuffer && scope.crossOriginIsolated
+		? scope.SharedArrayBuffer
+		: null;
+}
+
+/**
+ * Main thread side: receives frames from a worker and applies the committed
+ * ones to a pool. Pass it to InstancedMeshPool's `workerBridge` prop, which
+ * calls `consume` once per frame.
+ */
+export class InstanceWorkerBridge {
+	public readonly shared: boolean;
+	private port: InstanceWorkerPort;
+	private matrices: Float32Array | null = null;
+	private colors: Float32Array | null = null;
+	private pending: PendingFrame | null = null;
+	private committed: PendingFrame[] = [];
+
+	constructor(port: InstanceWorkerPort, options: InstanceWorkerBridgeOptions) {
+		this.port = port;
+		const { capacity, colors = false, shared = true } = options;
+		const SharedBuffer = shared ? getSharedArrayBuffer() : null;
+		this.shared = SharedBuffer !== null;
+
+		const init: InstanceWorkerMessage = { type: "init", capacity, colors };
+		if (SharedBuffer) {
+			init.sharedMatrices = new SharedBuffer(capacity * 16 * 4);
+			this.matrices = new Float32Array(init.sharedMatrices);
+			if (colors) {
+				init.sharedColors = new SharedBuffer(capacity * 3 * 4);
+				this.colors = new Float32Array(init.sharedColors);
+			}
+		}
+
+		this.port.addEventListener("message", this.handleMessage);
+		this.port.postMessage(init);
+	}
+
+	// Apply every frame committed since the last call; returns whether any was applied
+	consume(sink: InstanceWorkerSink): boolean {
+		if (this.committed.length === 0) return false;
+
+		let lastFrame = 0;
+		for (const { frame, writes, count } of this.committed) {
+			for (const { target, start, count: length, data } of writes) {
+				const source = data ?? this.getSharedRange(target, start, length);
+				if (!source) continue;
+				if (target === "matrices") {
+					sink.setMatrixArray(source, start);
+				} else {
+					sink.setColorArray(source, start);
+				}
+			}
+			if (count !== undefined) sink.setInstanceCount(count);
+			lastFrame = frame;
+		}
+		this.committed = [];
+
+		this.port.postMessage({ type: "consumed", frame: lastFrame });
+		return true;
+	}
+
+	dispose(): void {
+		this.port.removeEventListener("message", this.handleMessage);
+		this.pending = null;
+		this.committed = [];
+	}
+
+	private getSharedRange(
+		target: InstanceWorkerTarget,
+		start: number,
+		count: number,
+	): Float32Array | null {
+		const array = target === "matrices" ? this.matrices : this.colors;
+		const itemSize = ItemSizes[target];
+		return array
+			? array.subarray(start * itemSize, (start + count) * itemSize)
+			: null;
+	}
+
+	private handleMessage = (event: MessageEvent<InstanceWorkerMessage>) => {
+		const message = event.data;
+		switch (message.type) {
+			case "begin":
+				this.pending = { frame: message.frame, writes: [] };
+				break;
+			case "write":
+				if (this.pending?.frame === message.frame) {
+					const { target, start, count, data } = message;
+					this.pending.writes.push({ target, start, count, data });
+				}
+				break;
+			case "commit":
+				// Frames without a matching begin are incomplete and dropped
+				if (this.pending?.frame === message.frame) {
+					this.pending.count = message.count;
+					this.committed.push(this.pending);
+				}
+				this.pending = null;
+				break;
+		}
+	};
+}
+
+/**
+ * Worker side: write into `matrices` / `colors`, declare the touched ranges
+ * with `write`, then `commit`. With shared memory only the ranges are posted;
+ * otherwise each range is copied and transferred to the main thread.
+ */
+export class InstanceWorkerWriter {
+	public readonly capacity: number;
+	public readonly shared: boolean;
+	public readonly matrices: Float32Array;
+	public readonly colors: Float32Array | null;
+	private port: InstanceWorkerPort;
+	private frame = 0;
+	private inFrame = false;
+	private lastConsumed = 0;
+	private waiting: (() => void)[] = [];
+
+	constructor(
+		port: InstanceWorkerPort,
+		init: Extract<InstanceWorkerMessage, { type: "init" }>,
+	) {
+		this.port = port;
+		this.capacity = init.capacity;
+		this.shared = init.sharedMatrices !== undefined;
+		this.matrices = init.sharedMatrices
+			? new Float32Array(init.sharedMatrices)
+			: new Float32Array(init.capacity * 16);
+		if (!init.colors) {
+			this.colors = null;
+		} else {
+			this.colors = init.sharedColors
+				? new Float32Array(init.sharedColors)
+				: new Float32Array(init.capacity * 3);
+		}
+		this.port.addEventListener("message", this.handleMessage);
+	}
+
+	// Resolves once the main thread has applied the last committed frame,
+	// so shared memory is not overwritten while it is being read
+	ready(): Promise<void> {
+		if (this.lastConsumed >= this.frame) return Promise.resolve();
+		return new Promise((resolve) => this.waiting.push(resolve));
+	}
+
+	begin(): void {
+		this.frame++;
+		this.inFrame = true;
+		this.port.postMessage({ type: "begin", frame: this.frame });
+	}
+
+	write(target: InstanceWorkerTarget, start: number, count: number): void {
+		if (!this.inFrame) {
+			console.warn("InstanceWorkerWriter: write() called outside begin/commit");
+			return;
+		}
+
+		const message: InstanceWorkerMessage = {
+			type: "write",
+			frame: this.frame,
+			target,
+			start,
+			count,
+		};
+		const array = target === "matrices" ? this.matrices : this.colors;
+		if (this.shared || !array) {
+			this.port.postMessage(message);
+			return;
+		}
+
+		const itemSize = ItemSizes[target];
+		message.data = array.slice(start * itemSize, (start + count) * itemSize);
+		this.port.postMessage(message, [message.data.buffer]);
+	}
+
+	// Finish the frame; `count` optionally updates the pool's instance count
+	commit(count?: number): void {
+		if (!this.inFrame) return;
+		this.inFrame = false;
+		this.port.postMessage({ type: "commit", frame: this.frame, count });
+	}
+
+	dispose(): void {
+		this.port.removeEventListener("message", this.handleMessage);
+		for (const resolve of this.waiting) resolve();
+		this.waiting = [];
+	}
+
+	private handleMessage = (event: MessageEvent<InstanceWorkerMessage>) => {
+		const message = event.data;
+		if (message.type !== "consumed") return;
+		this.lastConsumed = Math.max(this.lastConsumed, message.frame);
+		if (this.lastConsumed >= this.frame) {
+			const waiting = this.waiting;
+			this.waiting = [];
+			for (const resolve of waiting) resolve();
+		}
+	};
+}
+
+// Call inside the worker; resolves with a writer once the pool's bridge sent `init`
+export function connectInstanceWorker(
+	port: InstanceWorkerPort = globalThis as unknown as InstanceWorkerPort,
+): Promise<InstanceWorkerWriter> {
+	return new Promise((resolve) => {
+		const handleInit = (event: MessageEvent<InstanceWorkerMessage>) => {
+			if (event.data.type !== "init") return;
+			port.removeEventListener("message", handleInit);
+			resolve(new InstanceWorkerWriter(port, event.data));
+		};
+		port.addEventListener("message", handleInit);
+	});
+}
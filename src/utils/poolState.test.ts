@@ -0,0 +1,97 @@
+import {
+	decodePoolState,
+	encodePoolState,
+	type InstancedMeshPoolState,
+} from "./poolState";
+
+// Values are stored as float32, so the inputs are rounded the same way
+function floats(length: number, seed: number) {
+	return Array.from({ length }, (_, i) =>
+		Math.fround(Math.sin(seed + i) * 100),
+	);
+}
+
+describe("pool state encoding", () => {
+	it("round-trips every section of a full snapshot", () => {
+		const count = 5;
+		const state: InstancedMeshPoolState = {
+			version: 1,
+			count,
+			matrices: floats(count * 16, 1),
+			colors: floats(count * 3, 2),
+			attributes: {
+				instanceOpacity: { itemSize: 1, values: floats(count, 3) },
+				instanceOffset: { itemSize: 3, values: floats(count * 3, 4) },
+			},
+			hidden: [1, 4],
+			handles: [0, 7, -1, 3, 12],
+		};
+
+		expect(decodePoolState(encodePoolState(state))).toEqual(state);
+	});
+
+	it("round-trips a snapshot without colors, handles or hidden instances", () => {
+		const state: InstancedMeshPoolState = {
+			version: 1,
+			count: 2,
+			matrices: floats(32, 5),
+			attributes: {},
+			hidden: [],
+		};
+
+		const decoded = decodePoolState(encodePoolState(state));
+		expect(decoded).toEqual(state);
+		expect(decoded).not.toHaveProperty("colors");
+		expect(decoded).not.toHaveProperty("handles");
+	});
+
+	it("round-trips an empty pool", () => {
+		const state: InstancedMeshPoolState = {
+			version: 1,
+			count: 0,
+			matrices: [],
+			colors: [],
+			attributes: { instanceOpacity: { itemSize: 1, values: [] } },
+			hidden: [],
+			handles: [],
+		};
+
+		expect(decodePoolState(encodePoolState(state))).toEqual(state);
+	});
+
+	// Header lengths that are not a multiple of 4 are padded before the data
+	it("keeps the data aligned for any header length", () => {
+		for (let length = 1; length <= 4; length++) {
+			const state: InstancedMeshPoolState = {
+				version: 1,
+				count: 1,
+				matrices: floats(16, length),
+				attributes: {
+					["a".repeat(length)]: { itemSize: 2, values: floats(2, length) },
+				},
+				hidden: [0],
+			};
+			expect(decodePoolState(encodePoolState(state))).toEqual(state);
+		}
+	});
+
+	it("rejects an unknown version", () => {
+		const buffer = encodePoolState({
+			version: 1,
+			count: 0,
+			matrices: [],
+			attributes: {},
+			hidden: [],
+		});
+		const headerLength = new Uint32Array(buffer, 0, 1)[0] ?? 0;
+		const header = new Uint8Array(buffer, 4, headerLength);
+		const text = new TextDecoder()
+			.decode(header)
+			.replace('"version":1', '"version":2');
+		header.set(new TextEncoder().encode(text));
+
+		expect(() => decodePoolState(buffer)).toThrow(
+			"Unsupported pool state version: 2",
+		);
+	});
+});
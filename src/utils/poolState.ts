@@ -0,0 +1,104 @@
+// Serializable snapshot of an InstancedMeshPool. All arrays are indexed by
+// compact instance index and hold `count` items.
+export interface InstancedMeshPoolState {
+	version: 1;
+	count: number;
+	matrices: number[]; // 16 per instance
+	colors?: number[]; // 3 per instance, only when colors are enabled
+	attributes: Record<string, { itemSize: number; values: number[] }>;
+	hidden: number[]; // Indices of hidden instances
+	handles?: number[]; // Handle per index (-1 if not allocated), when allocate() is used
+}
+
+// Binary layout: uint32 header length, JSON header (padded to 4 bytes),
+// then float32 matrices, colors and attributes, int32 handles, uint32 hidden
+interface BinaryHeader {
+	version: 1;
+	count: number;
+	colors: boolean;
+	attributes: { name: string; itemSize: number }[];
+	handles: boolean;
+	hidden: number;
+}
+
+export function encodePoolState(state: InstancedMeshPoolState): ArrayBuffer {
+	const { count } = state;
+	const attributes = Object.entries(state.attributes);
+	const header: BinaryHeader = {
+		version: 1,
+		count,
+		colors: state.colors !== undefined,
+		attributes: attributes.map(([name, { itemSize }]) => ({ name, itemSize })),
+		handles: state.handles !== undefined,
+		hidden: state.hidden.length,
+	};
+	const headerBytes = new TextEncoder().encode(JSON.stringify(header));
+	const headerLength = Math.ceil(headerBytes.length / 4) * 4;
+
+	const floatLength =
+		count * 16 +
+		(state.colors ? count * 3 : 0) +
+		attributes.reduce((sum, [, { itemSize }]) => sum + count * itemSize, 0);
+	const intLength = (state.handles ? count : 0) + state.hidden.length;
+	const buffer = new ArrayBuffer(
+		4 + headerLength + (floatLength + intLength) * 4,
+	);
+
+	new Uint32Array(buffer, 0, 1)[0] = headerLength;
+	new Uint8Array(buffer, 4, headerLength).set(headerBytes);
+
+	let offset = 4 + headerLength;
+	const writeFloats = (values: number[]) => {
+		new Float32Array(buffer, offset, values.length).set(values);
+		offset += values.length * 4;
+	};
+	writeFloats(state.matrices);
+	if (state.colors) writeFloats(state.colors);
+	for (const [, { values }] of attributes) writeFloats(values);
+	if (state.handles) {
+		new Int32Array(buffer, offset, count).set(state.handles);
+		offset += count * 4;
+	}
+	new Uint32Array(buffer, offset, state.hidden.length).set(state.hidden);
+
+	return buffer;
+}
+
+export function decodePoolState(buffer: ArrayBuffer): InstancedMeshPoolState {
+	const headerLength = new Uint32Array(buffer, 0, 1)[0] ?? 0;
+	const headerText = new TextDecoder()
+		.decode(new Uint8Array(buffer, 4, headerLength))
+		.replace(/\0+$/, "")
+		.trim();
+	const header = JSON.parse(headerText) as BinaryHeader;
+	if (header.version !== 1) {
+		throw new Error(`Unsupported pool state version: ${header.version}`);
+	}
+
+	const { count } = header;
+	let offset = 4 + headerLength;
+	const readFloats = (length: number) => {
+		const values = Array.from(new Float32Array(buffer, offset, length));
+		offset += length * 4;
+		return values;
+	};
+
+	const state: InstancedMeshPoolState = {
+		version: 1,
+		count,
+		matrices: readFloats(count * 16),
+		attributes: {},
+		hidden: [],
+	};
+	if (header.colors) state.colors = readFloats(count * 3);
+	for (const { name, itemSize } of header.attributes) {
+		state.attributes[name] = { itemSize, values: readFloats(count * itemSize) };
+	}
+	if (header.handles) {
+		state.handles = Array.from(new Int32Array(buffer, offset, count));
+		offset += count * 4;
+	}
+	state.hidden = Array.from(new Uint32Array(buffer, offset, header.hidden));
+
+	return state;
+}